@@ -1,56 +1,430 @@
-import React, { useState, useRef, useCallback } from 'react';
-import DrawingCanvas, { DrawingCanvasRef } from './components/DrawingCanvas';
-import { generateImageFromSketch } from './services/geminiService';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import DrawingCanvas, { DrawingCanvasRef, DrawingTool, DRAWING_TOOLS, MaskMode, DocumentSize, DEFAULT_DOCUMENT_SIZE, labelFontSize } from './components/DrawingCanvas';
+import LayersPanel from './components/LayersPanel';
+import ProviderPicker from './components/ProviderPicker';
+import ReferenceTray from './components/ReferenceTray';
+import PresetPicker from './components/PresetPicker';
+import CanvasSizePicker from './components/CanvasSizePicker';
+import GuidesPicker from './components/GuidesPicker';
+import BrushPicker from './components/BrushPicker';
+import ColorPalette from './components/ColorPalette';
+import ResultsGrid from './components/ResultsGrid';
+import HistoryPanel from './components/HistoryPanel';
+import ApiKeyDialog from './components/ApiKeyDialog';
+import SessionPanel from './components/SessionPanel';
+import BatchPanel from './components/BatchPanel';
+import ExportDialog from './components/ExportDialog';
+import StoryboardPanel from './components/StoryboardPanel';
+import PreprocessDialog from './components/PreprocessDialog';
+import { Candidate, EditSession, GenerationRequest, ReferenceImage, SessionTurn, Storyboard, StoryboardFrame } from './types';
+import { Layer } from './utils/layers';
+import { SelectionShape } from './utils/selection';
+import { Point } from './utils/shapes';
+import { DEFAULT_GUIDES, GuideSettings } from './utils/guides';
+import { BrushSettings, DEFAULT_BRUSH } from './utils/brush';
+import { generateImageFromSketch, refineImage } from './services/geminiService';
+import { createTurnId, threadTo, toConversation } from './services/session';
+import { getKeyStatus, KeyStatus } from './services/apiKeys';
+import { describeError, toGenerationError, SafetyError } from './services/errors';
+import { createProvider, loadProviderSettings, saveProviderSettings, isProviderId, DEFAULT_PROVIDER_SETTINGS, ProviderSettings } from './services/providers';
+import { addHistoryEntry, HistoryEntry } from './services/historyStore';
+import { parseProject, serializeProject, Project, PROJECT_EXTENSION } from './services/projectFile';
+import { clearAutosaves, loadRecoverableSession, markAutosaveClean } from './services/autosave';
+import { Palette, loadPalette, pushRecentColor, savePalette } from './services/palette';
+import { BUILT_IN_PRESETS, PromptPreset, composePrompt, loadUserPresets, saveUserPresets } from './services/presets';
+import { ImageMetadata, readImageMetadata } from './services/imageExport';
+import { AnimationFormat, PREVIOUS_FRAME_ROLE, createFrame, exportAnimation, frameReferenceLimit, framePrompt, previousFrame, updateFrame } from './services/storyboard';
+import { useAutosave } from './hooks/useAutosave';
+import { useBatchQueue } from './hooks/useBatchQueue';
+import { IMAGE_ACCEPT, blobToDataURL, dataURLToBlob, downloadURL, imageFileToDataURL, parseDataURL, toDataURL } from './utils/image';
 import { 
   PencilIcon, 
   EraserIcon, 
   TrashIcon, 
   SparklesIcon, 
-  DownloadIcon, 
   ImageIcon,
   CloseIcon,
-  UndoIcon
+  UndoIcon,
+  RedoIcon,
+  MaskIcon,
+  BrushIcon,
+  LassoIcon,
+  SquareIcon,
+  HistoryIcon,
+  KeyIcon,
+  MessageIcon,
+  StackIcon,
+  FilmIcon,
+  DownloadIcon,
+  SaveIcon,
+  FolderOpenIcon,
+  LineIcon,
+  ArrowIcon,
+  CircleIcon,
+  BucketIcon,
+  PipetteIcon,
+  TypeIcon,
+  SelectIcon,
+  ScissorsIcon,
+  CopyIcon,
+  ClipboardIcon,
+  MoveIcon
 } from './components/Icons';
 
+// Toolbar order; `key` is the single-letter shortcut
+const TOOLS: { tool: DrawingTool; title: string; key: string; Icon: React.FC<{ className?: string }> }[] = [
+  { tool: 'pencil', title: 'Pencil', key: 'p', Icon: PencilIcon },
+  { tool: 'eraser', title: 'Eraser', key: 'e', Icon: EraserIcon },
+  { tool: 'select', title: 'Select', key: 's', Icon: SelectIcon },
+  { tool: 'line', title: 'Line', key: 'l', Icon: LineIcon },
+  { tool: 'arrow', title: 'Arrow', key: 'a', Icon: ArrowIcon },
+  { tool: 'rect', title: 'Rectangle', key: 'r', Icon: SquareIcon },
+  { tool: 'ellipse', title: 'Ellipse', key: 'o', Icon: CircleIcon },
+  { tool: 'fill', title: 'Fill', key: 'g', Icon: BucketIcon },
+  { tool: 'eyedropper', title: 'Eyedropper', key: 'i', Icon: PipetteIcon },
+  { tool: 'text', title: 'Text Label', key: 't', Icon: TypeIcon },
+  { tool: 'mask', title: 'Inpainting Mask', key: 'm', Icon: MaskIcon },
+];
+
+// Tools that paint with the current colour; picking a colour keeps you on one of these
+const COLOR_TOOLS: readonly DrawingTool[] = ['pencil', 'line', 'arrow', 'rect', 'ellipse', 'fill', 'text'];
+// How long the colour has to stay put before it counts as recently used
+const RECENT_COLOR_DELAY_MS = 800;
+
 function App() {
   // --- State ---
   const [prompt, setPrompt] = useState<string>('');
-  const [isGenerating, setIsGenerating] = useState<boolean>(false);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [session, setSession] = useState<EditSession | null>(null);
+  const [variationCount, setVariationCount] = useState<number>(1);
+  // Keyframes for an animation; the active frame is the one on the canvas
+  const [storyboard, setStoryboard] = useState<Storyboard | null>(null);
+  const [onionSkin, setOnionSkin] = useState<boolean>(true);
+  // History, refinement thread, batch queue and storyboard share the right-hand side, one at a time
+  const [sidePanel, setSidePanel] = useState<'history' | 'session' | 'batch' | 'storyboard' | null>(null);
+  const [showKeyDialog, setShowKeyDialog] = useState<boolean>(false);
+  // Uploaded or dropped image waiting in the cleanup dialog, and where it was dropped
+  const [preprocessSource, setPreprocessSource] = useState<{ url: string; at?: Point } | null>(null);
+  // What the export dialog is open for: a result with the sketch behind it, or just the canvas
+  const [exportTarget, setExportTarget] = useState<{ sketch?: string; result?: string; metadata: ImageMetadata } | null>(null);
+  const [keyStatus, setKeyStatus] = useState<KeyStatus>(getKeyStatus);
+  const [historyVersion, setHistoryVersion] = useState<number>(0);
+  // Unsaved work found on startup, waiting for the user to restore or discard it
+  const [recoverableSession, setRecoverableSession] = useState<{ savedAt: number; project: Project } | null>(null);
+  const [sessionChecked, setSessionChecked] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+  // Prompt presets: the chosen template, its placeholder values and the system instruction
+  const [userPresets, setUserPresets] = useState<PromptPreset[]>(loadUserPresets);
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const [presetValues, setPresetValues] = useState<Record<string, string>>({});
+  const [systemInstruction, setSystemInstruction] = useState<string>('');
 
   // Drawing tools state
-  const [tool, setTool] = useState<'pencil' | 'eraser'>('pencil');
+  const [tool, setTool] = useState<DrawingTool>('pencil');
+  const [maskMode, setMaskMode] = useState<MaskMode>('brush');
+  const [selectMode, setSelectMode] = useState<SelectionShape>('rect');
+  const [hasSelection, setHasSelection] = useState<boolean>(false);
   const [color, setColor] = useState<string>('#000000');
   const [brushSize, setBrushSize] = useState<number>(4);
+  const [smoothing, setSmoothing] = useState<number>(30);
+  const [fillTolerance, setFillTolerance] = useState<number>(15);
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+  const [documentSize, setDocumentSize] = useState<DocumentSize>(DEFAULT_DOCUMENT_SIZE);
+  const [guides, setGuides] = useState<GuideSettings>(DEFAULT_GUIDES);
+  const [brush, setBrush] = useState<BrushSettings>(DEFAULT_BRUSH);
+  const [palette, setPalette] = useState<Palette>(loadPalette);
+
+  // Layers state (mirrored from the canvas)
+  const [layers, setLayers] = useState<Layer[]>([]);
+  const [activeLayerId, setActiveLayerId] = useState<string>('');
+  const [sendSelectedOnly, setSendSelectedOnly] = useState<boolean>(false);
+  const [selectedLayerIds, setSelectedLayerIds] = useState<string[]>([]);
 
   // Refs
   const canvasRef = useRef<DrawingCanvasRef>(null);
+  // Where the eyedropper returns to after picking a colour
+  const lastColorTool = useRef<DrawingTool>('pencil');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  // Inputs of the last run, so individual slots can be re-rolled with the same sketch + prompt
+  const lastRequest = useRef<GenerationRequest | null>(null);
+  // Shared by every slot in flight, so Cancel stops all of them
+  const abortRef = useRef<AbortController | null>(null);
+  // Numbers the slots added for extra images, so re-rolling a slot never repeats an id
+  const extraSlotCount = useRef(0);
+  // Set while a storyboard frame is being loaded onto the canvas
+  const frameLoading = useRef(false);
+
+  const batch = useBatchQueue();
+  const batchActive = batch.items.some(i => i.status === 'running');
+  const activePreset = [...BUILT_IN_PRESETS, ...userPresets].find(p => p.id === presetId) ?? null;
+
+  const isGenerating = candidates.some(c => c.status === 'pending')
+    || !!session?.turns.some(t => t.status === 'pending')
+    || !!storyboard?.frames.some(f => f.status === 'pending');
+  // Direct Gemini calls need a key in the browser; the proxy holds its own
+  const needsKey = (settings: ProviderSettings) => settings.providerId === 'gemini' && !settings.geminiProxy && keyStatus !== 'ready';
+
+  // Remember the selected provider/model between sessions
+  useEffect(() => {
+    saveProviderSettings(providerSettings);
+  }, [providerSettings]);
+
+  useEffect(() => {
+    savePalette(palette);
+  }, [palette]);
+
+  // Track recent colours once the picker settles, not every shade dragged through on the way
+  const initialColor = useRef(color);
+  useEffect(() => {
+    if (color === initialColor.current) return;
+    initialColor.current = '';
+    const timer = setTimeout(() => setPalette(p => ({ ...p, recent: pushRecentColor(p.recent, color) })), RECENT_COLOR_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [color]);
+
+  // --- Autosave ---
+
+  const buildProject = (): Project | null => {
+    if (!canvasRef.current) return null;
+    return {
+      canvas: canvasRef.current.getDocument(),
+      brush: { tool, color, brushSize, settings: brush },
+      prompt,
+      results: candidates.filter(c => c.status === 'done' && c.image).map(c => ({ image: c.image! })),
+    };
+  };
+
+  // Don't write snapshots until we know whether there's a previous session to restore
+  const scheduleAutosave = useAutosave(buildProject, { enabled: sessionChecked && !recoverableSession });
+
+  useEffect(() => {
+    loadRecoverableSession()
+      .then(setRecoverableSession)
+      .catch(err => console.warn("Could not check for a previous session:", err))
+      .finally(() => setSessionChecked(true));
+  }, []);
+
+  // The prompt is part of the session too; skip the initial render
+  const promptTouched = useRef(false);
+  useEffect(() => {
+    if (!promptTouched.current) {
+      promptTouched.current = true;
+      return;
+    }
+    scheduleAutosave();
+  }, [prompt, scheduleAutosave]);
 
   // --- Handlers ---
 
+  const handleCanvasChange = useCallback(() => {
+    if (!canvasRef.current) return;
+    scheduleAutosave();
+    setHistoryState({
+      canUndo: canvasRef.current.canUndo(),
+      canRedo: canvasRef.current.canRedo(),
+    });
+  }, []);
+
+  const handleLayersChange = useCallback((nextLayers: Layer[], nextActiveId: string) => {
+    setLayers(nextLayers);
+    setActiveLayerId(nextActiveId);
+    // Drop selections for layers that no longer exist
+    setSelectedLayerIds(ids => ids.filter(id => nextLayers.some(l => l.id === id)));
+  }, []);
+
+  const handleToggleLayerSelected = (id: string) => {
+    setSelectedLayerIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+  };
+
+  const handleUndo = () => canvasRef.current?.undo();
+  const handleRedo = () => canvasRef.current?.redo();
+
+  useEffect(() => {
+    if (COLOR_TOOLS.includes(tool)) lastColorTool.current = tool;
+  }, [tool]);
+
+  const selectColor = (value: string) => {
+    setColor(value);
+    if (!COLOR_TOOLS.includes(tool)) setTool(lastColorTool.current);
+  };
+
+  const handleColorPick = (value: string) => {
+    setColor(value);
+    setTool(lastColorTool.current);
+  };
+
+  const handleUserPresetsChange = (presets: PromptPreset[]) => {
+    setUserPresets(presets);
+    saveUserPresets(presets);
+  };
+
+  const handleSelectPreset = (preset: PromptPreset | null) => {
+    setPresetId(preset?.id ?? null);
+    setPresetValues({});
+    if (preset?.systemInstruction) setSystemInstruction(preset.systemInstruction);
+  };
+
+  const handleDocumentSizeChange = (size: DocumentSize) => {
+    // Resampling can't be undone, so don't silently throw the undo stack away
+    if (historyState.canUndo && !window.confirm('Changing the canvas size clears undo history. Continue?')) return;
+    canvasRef.current?.setDocumentSize(size);
+  };
+
+  // Keyboard shortcuts: single letters pick tools (see TOOLS), Ctrl+Z / Ctrl+Shift+Z,
+  // Ctrl+= / Ctrl+- / Ctrl+0 for zoom (Cmd on macOS)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (!(e.ctrlKey || e.metaKey)) {
+        const shortcut = !e.altKey && TOOLS.find(t => t.key === key);
+        if (shortcut) {
+          e.preventDefault();
+          setTool(shortcut.tool);
+        }
+        return;
+      }
+
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) canvasRef.current?.redo();
+        else canvasRef.current?.undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        canvasRef.current?.redo();
+      } else if (key === '=' || key === '+') {
+        e.preventDefault();
+        canvasRef.current?.zoomIn();
+      } else if (key === '-') {
+        e.preventDefault();
+        canvasRef.current?.zoomOut();
+      } else if (key === '0') {
+        e.preventDefault();
+        canvasRef.current?.fitToScreen();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const updateCandidate = (id: string, patch: Partial<Candidate>) => {
+    setCandidates(list => list.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  // Every successful result goes to the history gallery. Failing to store it shouldn't fail the run.
+  const saveToHistory = async (request: GenerationRequest, image: string) => {
+    try {
+      await addHistoryEntry({
+        prompt: request.prompt,
+        providerId: request.settings.providerId,
+        model: request.settings.model,
+        sketch: await dataURLToBlob(toDataURL(request.image)),
+        mask: request.mask ? await dataURLToBlob(toDataURL(request.mask)) : undefined,
+        result: await dataURLToBlob(image),
+      });
+      setHistoryVersion(v => v + 1);
+    } catch (err) {
+      console.warn("Could not save generation to history:", err);
+    }
+  };
+
+  const currentSignal = () => {
+    if (!abortRef.current || abortRef.current.signal.aborted) abortRef.current = new AbortController();
+    return abortRef.current.signal;
+  };
+
+  // Runs one slot; failures stay on the slot instead of failing the whole batch
+  const runCandidate = async (id: string) => {
+    const request = lastRequest.current;
+    if (!request) return;
+    const signal = currentSignal();
+    updateCandidate(id, { status: 'pending', image: undefined, error: undefined, note: undefined, text: undefined, finishReason: undefined, safetyRatings: undefined });
+    try {
+      const result = await generateImageFromSketch(request.prompt, request.image, {
+        settings: request.settings,
+        mask: request.mask,
+        references: request.references?.map(({ data, mimeType, role }) => ({ data, mimeType, role })),
+        systemInstruction: request.systemInstruction,
+        signal,
+        onRetry: (attempt, delayMs, error) => updateCandidate(id, {
+          note: `${toGenerationError(error).message} Retry ${attempt} in ${Math.ceil(delayMs / 1000)}s...`,
+        }),
+      });
+      const [image, ...extra] = result.images;
+      const details = { text: result.text, finishReason: result.finishReason, safetyRatings: result.safetyRatings };
+      // Extra images from the same answer become slots of their own, right after this one
+      const extraSlots = extra.map((extraImage): Candidate => ({ id: `${id}+${++extraSlotCount.current}`, ...details, status: 'done', image: extraImage }));
+      setCandidates(list => list.flatMap(c => c.id !== id ? [c] : [
+        { ...c, ...details, status: 'done', image, note: undefined },
+        ...extraSlots,
+      ]));
+      result.images.forEach(resultImage => saveToHistory(request, resultImage));
+    } catch (err) {
+      updateCandidate(id, {
+        status: 'error',
+        error: describeError(err),
+        note: undefined,
+        // Keep what the model said and which category blocked it, so the slot can show them
+        text: err instanceof SafetyError && err.modelText ? [err.modelText] : undefined,
+        safetyRatings: err instanceof SafetyError ? err.ratings : undefined,
+      });
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  };
+
+  const startRun = async (request: GenerationRequest) => {
+    // Ask for the key up front instead of sending a request that can only fail
+    if (needsKey(request.settings)) {
+      setShowKeyDialog(true);
+      return;
+    }
+    lastRequest.current = request;
+    const runId = Date.now().toString(36);
+    const slots: Candidate[] = Array.from({ length: variationCount }, (_, i) => ({ id: `${runId}-${i}`, status: 'pending' }));
+    setCandidates(slots);
+
+    // All variations run concurrently
+    await Promise.all(slots.map(slot => runCandidate(slot.id)));
+  };
+
   const handleGenerate = async () => {
     if (!canvasRef.current) return;
     
-    setIsGenerating(true);
     setError(null);
-    setGeneratedImage(null);
 
     try {
-      const imageData = canvasRef.current.getDataURL();
+      if (sendSelectedOnly && selectedLayerIds.length === 0) {
+          throw new Error("Select at least one layer to send.");
+      }
+      const imageData = canvasRef.current.getDataURL(sendSelectedOnly ? { layerIds: selectedLayerIds } : undefined);
       const base64Data = imageData.split(',')[1]; // Remove header
       
       if (!base64Data) {
           throw new Error("Canvas is empty or invalid.");
       }
 
-      const resultImage = await generateImageFromSketch(prompt, base64Data);
-      setGeneratedImage(resultImage);
-    } catch (err: any) {
-      setError(err.message || "Something went wrong during generation.");
-    } finally {
-      setIsGenerating(false);
+      // If part of the canvas is masked, only that area gets edited
+      const maskData = canvasRef.current.getMaskDataURL()?.split(',')[1];
+
+      await startRun({
+        prompt: composePrompt(activePreset, presetValues, prompt),
+        image: base64Data,
+        mask: maskData,
+        references,
+        systemInstruction,
+        settings: providerSettings,
+      });
+    } catch (err) {
+      setError(describeError(err));
     }
   };
 
@@ -60,45 +434,414 @@ function App() {
     }
   };
 
-  const handleDownload = () => {
-    if (generatedImage) {
-      const link = document.createElement('a');
-      link.href = generatedImage;
-      link.download = `sketch-to-life-${Date.now()}.png`;
-      link.click();
-    }
+  const exportMetadata = (prompt: string, settings = providerSettings): ImageMetadata =>
+    ({ prompt, model: settings.model, providerId: settings.providerId, createdAt: Date.now() });
+
+  const handleDownload = (candidate: Candidate) => {
+    if (!candidate.image) return;
+    const request = lastRequest.current;
+    setExportTarget({
+      sketch: request ? toDataURL(request.image) : undefined,
+      result: candidate.image,
+      metadata: exportMetadata(request?.prompt ?? prompt, request?.settings),
+    });
+  };
+
+  const handleSessionDownload = (turn: SessionTurn) => {
+    if (!session || !turn.result) return;
+    // The sketch is on the first turn of the thread; later turns only carry their prompt
+    const first = threadTo(session, turn.id)[0];
+    setExportTarget({
+      sketch: first?.image ? toDataURL(first.image) : undefined,
+      result: turn.result,
+      metadata: exportMetadata(turn.prompt, session.settings),
+    });
+  };
+
+  const handleExportSketch = () => {
+    const sketch = canvasRef.current?.getDataURL();
+    if (sketch) setExportTarget({ sketch, metadata: exportMetadata(composePrompt(activePreset, presetValues, prompt)) });
+  };
+
+  // Images exported with metadata carry their prompt; offer to bring it back
+  const restorePromptFrom = async (file: Blob) => {
+    const metadata = await readImageMetadata(file).catch(() => null);
+    if (!metadata || !metadata.prompt || metadata.prompt === prompt) return;
+    if (prompt.trim() && !confirm(`This image was made with the prompt:\n\n"${metadata.prompt}"\n\nReplace your current instruction with it?`)) return;
+    setPresetId(null);
+    setPrompt(metadata.prompt);
   };
   
-  const handleUseAsBase = () => {
-      if (generatedImage && canvasRef.current) {
+  const handleUseAsBase = async (candidate: Candidate) => {
+      if (candidate.image && canvasRef.current) {
           if (confirm("Use this generated image as your new base sketch? This will replace your current drawing.")) {
-              canvasRef.current.loadDataURL(generatedImage);
-              setGeneratedImage(null);
+              try {
+                  await canvasRef.current.loadDataURL(candidate.image);
+                  setCandidates([]);
+              } catch (err: any) {
+                  setError(err.message || "Could not load the image onto the canvas.");
+              }
           }
       }
   };
 
+  // --- Refinement sessions ---
+
+  const handleRefine = (candidate: Candidate) => {
+    if (!candidate.image) return;
+    const request = lastRequest.current;
+    // The run that produced the result is the first turn, so follow-ups know where it came from
+    const first: SessionTurn = {
+      id: createTurnId(),
+      parentId: null,
+      prompt: request?.prompt ?? '',
+      image: request?.image,
+      result: candidate.image,
+      text: candidate.text,
+      status: 'done',
+      createdAt: Date.now(),
+    };
+    setSession({
+      turns: [first],
+      activeId: first.id,
+      settings: request?.settings ?? providerSettings,
+      systemInstruction: request?.systemInstruction,
+    });
+    setSidePanel('session');
+    setCandidates([]);
+  };
+
+  const updateTurn = (id: string, patch: Partial<SessionTurn>) => {
+    setSession(s => s && { ...s, turns: s.turns.map(t => t.id === id ? { ...t, ...patch } : t) });
+  };
+
+  const handleSessionSend = async (text: string) => {
+    if (!session) return;
+    if (needsKey(session.settings)) {
+      setShowKeyDialog(true);
+      return;
+    }
+    const turn: SessionTurn = { id: createTurnId(), parentId: session.activeId, prompt: text, status: 'pending', createdAt: Date.now() };
+    const thread = threadTo(session, session.activeId);
+    setSession({ ...session, turns: [...session.turns, turn], activeId: turn.id });
+    try {
+      const result = await refineImage(text, await toConversation(thread), {
+        settings: session.settings,
+        systemInstruction: session.systemInstruction,
+        signal: currentSignal(),
+      });
+      updateTurn(turn.id, { status: 'done', result: result.images[0], text: result.text });
+    } catch (err) {
+      updateTurn(turn.id, { status: 'error', error: describeError(err) });
+    }
+  };
+
+  const handleSessionUseAsBase = async (turn: SessionTurn) => {
+    if (!turn.result || !canvasRef.current) return;
+    if (!confirm("Use this image as your new base sketch? This will replace your current drawing.")) return;
+    try {
+      await canvasRef.current.loadDataURL(turn.result);
+    } catch (err: any) {
+      setError(err.message || "Could not load the image onto the canvas.");
+    }
+  };
+
+  // --- Storyboard ---
+
+  // The active frame is edited on the canvas; fold the canvas back into it before using the frames.
+  // Returns null while another frame is still loading, since the canvas holds neither frame then.
+  const syncStoryboard = (): Storyboard | null => {
+    if (frameLoading.current) return null;
+    if (!storyboard || !canvasRef.current) return storyboard;
+    const next = updateFrame(storyboard, storyboard.activeId, {
+      sketch: canvasRef.current.getDataURL(),
+      document: canvasRef.current.getDocument(),
+    });
+    setStoryboard(next);
+    return next;
+  };
+
+  const handleStoryboardStart = () => {
+    if (!canvasRef.current) return;
+    const frame = createFrame(canvasRef.current.getDataURL(), canvasRef.current.getDocument());
+    setStoryboard({ frames: [frame], activeId: frame.id });
+  };
+
+  const handleAddFrame = (duplicate: boolean) => {
+    const current = syncStoryboard();
+    if (!current || !canvasRef.current) return;
+    const index = current.frames.findIndex(f => f.id === current.activeId);
+    const active = current.frames[index];
+    // A blank frame starts from an empty canvas, with the onion skin to draw against
+    if (!duplicate) canvasRef.current.clear();
+    const frame = duplicate
+      ? createFrame(active.sketch, active.document, active.duration)
+      : createFrame(canvasRef.current.getDataURL(), canvasRef.current.getDocument(), active.duration);
+    const frames = [...current.frames];
+    frames.splice(index + 1, 0, frame);
+    setStoryboard({ frames, activeId: frame.id });
+    canvasRef.current.resetHistory();
+  };
+
+  // Puts a frame's layers on the canvas, only making it active once they're there.
+  // Loading a document also starts a fresh undo history, so undo never reaches another frame.
+  const showFrame = async (frame: StoryboardFrame) => {
+    if (!canvasRef.current) return;
+    frameLoading.current = true;
+    try {
+      await canvasRef.current.loadDocument(frame.document);
+      setStoryboard(s => s && { ...s, activeId: frame.id });
+    } catch (err: any) {
+      setError(err.message || "Could not open the frame.");
+    } finally {
+      frameLoading.current = false;
+    }
+  };
+
+  const handleSelectFrame = async (id: string) => {
+    if (!storyboard || id === storyboard.activeId) return;
+    const current = syncStoryboard();
+    const frame = current?.frames.find(f => f.id === id);
+    if (!current || !frame) return;
+    await showFrame(frame);
+  };
+
+  const handleDeleteFrame = async (id: string) => {
+    if (!storyboard || frameLoading.current || storyboard.frames.length < 2 || !confirm("Delete this frame?")) return;
+    const index = storyboard.frames.findIndex(f => f.id === id);
+    const frames = storyboard.frames.filter(f => f.id !== id);
+    if (id !== storyboard.activeId) {
+      setStoryboard({ ...storyboard, frames });
+      return;
+    }
+    // The deleted frame was on the canvas, so bring up its neighbour
+    const next = frames[Math.min(index, frames.length - 1)];
+    // The deleted frame stays the active id (matching nothing) until the neighbour is loaded,
+    // so the canvas is never synced into the wrong frame
+    setStoryboard({ ...storyboard, frames });
+    await showFrame(next);
+  };
+
+  // Frames run one at a time, in order, each with the previous frame's result as a reference
+  const handleStoryboardGenerate = async (frameId?: string) => {
+    const current = syncStoryboard();
+    if (!current) return;
+    if (needsKey(providerSettings)) {
+      setShowKeyDialog(true);
+      return;
+    }
+    const shared = composePrompt(activePreset, presetValues, prompt);
+    const settings = providerSettings;
+    const signal = currentSignal();
+    const patchFrame = (id: string, patch: Parameters<typeof updateFrame>[2]) =>
+      setStoryboard(s => s && updateFrame(s, id, patch));
+    // Results as they arrive, so the next frame can reference the one just generated
+    const results = new Map(current.frames.map(f => [f.id, f.result]));
+    const targets = frameId ? [frameId] : current.frames.filter(f => !f.result).map(f => f.id);
+
+    // Frames after the first also send the previous frame, so check the references fit before spending any
+    const provider = createProvider(settings);
+    const allowed = frameReferenceLimit(provider.capabilities);
+    if (references.length > allowed && targets.some(id => current.frames.findIndex(f => f.id === id) > 0)) {
+      setError(
+        `${provider.name} takes at most ${allowed} reference image(s) per storyboard frame, since the previous frame uses a slot. ` +
+        `Remove ${references.length - allowed} to generate the storyboard.`
+      );
+      return;
+    }
+
+    for (const id of targets) {
+      if (signal.aborted) break;
+      const index = current.frames.findIndex(f => f.id === id);
+      const frame = current.frames[index];
+      const previous = index > 0 ? results.get(current.frames[index - 1].id) : undefined;
+      patchFrame(id, { status: 'pending', error: undefined });
+      try {
+        const result = await generateImageFromSketch(framePrompt(shared, frame, index, current.frames.length), parseDataURL(frame.sketch).data, {
+          settings,
+          systemInstruction: systemInstruction.trim() || undefined,
+          references: [
+            ...references.map(({ data, mimeType, role }) => ({ data, mimeType, role })),
+            ...(previous ? [{ ...parseDataURL(previous), role: PREVIOUS_FRAME_ROLE }] : []),
+          ],
+          signal,
+        });
+        results.set(id, result.images[0]);
+        patchFrame(id, { status: 'done', result: result.images[0] });
+      } catch (err) {
+        patchFrame(id, { status: 'error', error: describeError(err) });
+      }
+    }
+  };
+
+  const handleStoryboardExport = async (format: AnimationFormat) => {
+    const current = syncStoryboard();
+    if (!current) return;
+    try {
+      const blob = await exportAnimation(current.frames, format);
+      const url = URL.createObjectURL(blob);
+      downloadURL(url, `sketch-to-life-animation-${Date.now()}.${format}`);
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (err: any) {
+      setError(err.message || "Could not export the animation.");
+    }
+  };
+
+  // --- Batch ---
+
+  const handleBatchStart = (files: File[], concurrency: number) => {
+    if (needsKey(providerSettings)) {
+      setShowKeyDialog(true);
+      return;
+    }
+    batch.start(files, {
+      prompt: composePrompt(activePreset, presetValues, prompt),
+      presetName: activePreset?.name,
+      systemInstruction: systemInstruction.trim() || undefined,
+      settings: providerSettings,
+      concurrency,
+    });
+  };
+
+  const handleBatchResume = () => {
+    if (batch.job && needsKey(batch.job.settings)) {
+      setShowKeyDialog(true);
+      return;
+    }
+    batch.resume();
+  };
+
+  // --- History ---
+
+  const requestFromEntry = async (entry: HistoryEntry): Promise<GenerationRequest> => ({
+    prompt: entry.prompt,
+    image: (await blobToDataURL(entry.sketch)).split(',')[1],
+    mask: entry.mask ? (await blobToDataURL(entry.mask)).split(',')[1] : undefined,
+    // Keep endpoint/keys from the current settings, but use the provider and model of the entry.
+    // Entries come from IndexedDB and may name a provider that no longer exists
+    settings: isProviderId(entry.providerId)
+      ? { ...providerSettings, providerId: entry.providerId, model: entry.model }
+      : { ...providerSettings, providerId: DEFAULT_PROVIDER_SETTINGS.providerId, model: DEFAULT_PROVIDER_SETTINGS.model },
+  });
+
+  const handleOpenHistoryEntry = async (entry: HistoryEntry) => {
+    try {
+      lastRequest.current = await requestFromEntry(entry);
+      setCandidates([{ id: entry.id, status: 'done', image: await blobToDataURL(entry.result) }]);
+      setSidePanel(null);
+    } catch (err: any) {
+      setError(err.message || "Could not open the history entry.");
+    }
+  };
+
+  const handleRestoreSketch = async (entry: HistoryEntry) => {
+    if (!canvasRef.current) return;
+    if (!confirm("Restore this sketch onto the canvas? This will replace your current drawing.")) return;
+    try {
+      await canvasRef.current.loadDataURL(await blobToDataURL(entry.sketch));
+      setPrompt(entry.prompt);
+      setSidePanel(null);
+    } catch (err: any) {
+      setError(err.message || "Could not restore the sketch.");
+    }
+  };
+
+  const handleRerun = async (entry: HistoryEntry) => {
+    setError(null);
+    setSidePanel(null);
+    try {
+      await startRun(await requestFromEntry(entry));
+    } catch (err) {
+      setError(describeError(err));
+    }
+  };
+
+  // --- Project files ---
+
+  const handleSaveProject = () => {
+    const project = buildProject();
+    if (!project) return;
+    const url = URL.createObjectURL(new Blob([serializeProject(project)], { type: 'application/json' }));
+    downloadURL(url, `sketch-to-life-${Date.now()}${PROJECT_EXTENSION}`);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    markAutosaveClean().catch(err => console.warn("Could not update autosave:", err));
+  };
+
+  const applyProject = async (project: Project) => {
+    if (!canvasRef.current) return;
+    await canvasRef.current.loadDocument(project.canvas);
+    setTool((DRAWING_TOOLS as readonly string[]).includes(project.brush.tool) ? project.brush.tool as DrawingTool : 'pencil');
+    setColor(project.brush.color);
+    setBrushSize(project.brush.brushSize);
+    setBrush(project.brush.settings ?? DEFAULT_BRUSH);
+    setPrompt(project.prompt);
+    lastRequest.current = null;
+    setCandidates(project.results.map((r, i) => ({ id: `project-${i}`, status: 'done', image: r.image })));
+  };
+
+  const handleProjectFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset input so same file can be selected again if needed
+    if (projectInputRef.current) projectInputRef.current.value = '';
+    if (!file) return;
+
+    try {
+      await applyProject(parseProject(await file.text()));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Could not open the project.");
+    }
+  };
+
+  const handleRestoreSession = async () => {
+    const session = recoverableSession;
+    setRecoverableSession(null);
+    if (!session) return;
+    try {
+      await applyProject(session.project);
+    } catch (err: any) {
+      setError(err.message || "Could not restore the previous session.");
+    }
+  };
+
+  const handleDiscardSession = () => {
+    setRecoverableSession(null);
+    clearAutosaves().catch(err => console.warn("Could not clear autosaves:", err));
+  };
+
   const handleUploadClick = () => {
     fileInputRef.current?.click();
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-        const reader = new FileReader();
-        reader.onload = (event) => {
-            if (canvasRef.current && typeof event.target?.result === 'string') {
-                canvasRef.current.loadDataURL(event.target.result);
-            }
-        };
-        reader.readAsDataURL(file);
+  // Uploads and drops both go through the cleanup dialog before they reach the canvas
+  const openImageFile = async (file: File, at?: Point) => {
+    try {
+        // Converts HEIC/SVG and applies EXIF rotation before it becomes pixels
+        const url = await imageFileToDataURL(file);
+        setPreprocessSource({ url, at });
+        await restorePromptFrom(file);
+    } catch (err: any) {
+        setError(err.message || "Could not open the image.");
     }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
     // Reset input so same file can be selected again if needed
     if (fileInputRef.current) fileInputRef.current.value = '';
+    if (file) await openImageFile(file);
+  };
+
+  const handlePlacePreprocessed = async (url: string) => {
+    const at = preprocessSource?.at;
+    setPreprocessSource(null);
+    try {
+        await canvasRef.current?.placeImage(url, at);
+    } catch (err: any) {
+        setError(err.message || "Could not open the image.");
+    }
   };
 
-  // Define preset colors
-  const colors = ['#000000', '#FF0000', '#00FF00', '#0000FF', '#FFFF00', '#FF00FF', '#00FFFF', '#FFFFFF'];
 
   return (
     <div className="flex flex-col h-screen max-h-screen bg-zinc-950 text-zinc-100 overflow-hidden font-sans">
@@ -113,9 +856,91 @@ function App() {
                 Sketch-to-Life
             </h1>
         </div>
-        <div className="hidden md:flex text-xs text-zinc-500 gap-4">
-            <span>Powered by iBreakthrough</span>
-            <span>Drag & Drop Enabled</span>
+        <div className="flex items-center gap-4">
+            <div className="hidden md:flex text-xs text-zinc-500 gap-4">
+                <span>Powered by iBreakthrough</span>
+                <span>Drag & Drop Enabled</span>
+            </div>
+            <button
+                onClick={() => projectInputRef.current?.click()}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 transition-colors"
+                title="Open Project"
+            >
+                <FolderOpenIcon className="w-4 h-4" />
+                Open
+            </button>
+            <button
+                onClick={handleSaveProject}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 transition-colors"
+                title="Save Project"
+            >
+                <SaveIcon className="w-4 h-4" />
+                Save
+            </button>
+            <button
+                onClick={handleExportSketch}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 transition-colors"
+                title="Export Sketch"
+            >
+                <DownloadIcon className="w-4 h-4" />
+                Export
+            </button>
+            <input
+                type="file"
+                ref={projectInputRef}
+                onChange={handleProjectFileChange}
+                className="hidden"
+                accept={`${PROJECT_EXTENSION},application/json`}
+            />
+            <button
+                onClick={() => setSidePanel(p => p === 'history' ? null : 'history')}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${sidePanel === 'history' ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200'}`}
+                title="Generation History"
+            >
+                <HistoryIcon className="w-4 h-4" />
+                History
+            </button>
+            {session && (
+                <button
+                    onClick={() => setSidePanel(p => p === 'session' ? null : 'session')}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${sidePanel === 'session' ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200'}`}
+                    title="Refinement Thread"
+                >
+                    <MessageIcon className="w-4 h-4" />
+                    Refine
+                </button>
+            )}
+            <button
+                onClick={() => setSidePanel(p => p === 'batch' ? null : 'batch')}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${sidePanel === 'batch' ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200'}`}
+                title="Batch Processing"
+            >
+                <StackIcon className="w-4 h-4" />
+                Batch
+                {batch.items.length > 0 && (
+                    <span className={`text-[10px] ${batchActive ? 'text-yellow-400' : 'text-zinc-500'}`}>
+                        {batch.items.filter(i => i.status === 'done').length}/{batch.items.length}
+                    </span>
+                )}
+            </button>
+            <button
+                onClick={() => setSidePanel(p => p === 'storyboard' ? null : 'storyboard')}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${sidePanel === 'storyboard' ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200'}`}
+                title="Storyboard"
+            >
+                <FilmIcon className="w-4 h-4" />
+                Storyboard
+                {storyboard && <span className="text-[10px] text-zinc-500">{storyboard.frames.length}</span>}
+            </button>
+            <button
+                onClick={() => setShowKeyDialog(true)}
+                className="relative flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 transition-colors"
+                title="API Key Settings"
+            >
+                <KeyIcon className="w-4 h-4" />
+                API Key
+                {needsKey(providerSettings) && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-yellow-400" />}
+            </button>
         </div>
       </header>
 
@@ -130,30 +955,57 @@ function App() {
                 <label className="text-sm font-medium text-zinc-400">Instruction</label>
                 <textarea 
                     className="w-full h-24 bg-zinc-950 border border-zinc-700 rounded-lg p-3 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none resize-none placeholder-zinc-600"
-                    placeholder="Describe your change or creation...&#10;e.g. 'Add a retro filter', 'Remove the person', or 'A futuristic city'"
+                    placeholder={presetId
+                        ? "Extra direction, added after the preset..."
+                        : "Describe your change or creation...\ne.g. 'Add a retro filter', 'Remove the person', or 'A futuristic city'"}
                     value={prompt}
                     onChange={(e) => setPrompt(e.target.value)}
                 />
             </div>
 
+            {/* Prompt Presets */}
+            <PresetPicker
+                userPresets={userPresets}
+                onUserPresetsChange={handleUserPresetsChange}
+                presetId={presetId}
+                onSelect={handleSelectPreset}
+                values={presetValues}
+                onValuesChange={setPresetValues}
+                systemInstruction={systemInstruction}
+                onSystemInstructionChange={setSystemInstruction}
+                prompt={prompt}
+                onPromptChange={setPrompt}
+                onError={setError}
+            />
+
+            {/* Provider / Model */}
+            <ProviderPicker settings={providerSettings} onChange={setProviderSettings} />
+            {needsKey(providerSettings) && (
+                <div className="flex items-center justify-between gap-2 -mt-3 px-3 py-2 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-xs text-yellow-300">
+                    {keyStatus === 'locked' ? 'API key is locked.' : 'No API key configured.'}
+                    <button onClick={() => setShowKeyDialog(true)} className="font-medium underline hover:text-yellow-200">
+                        {keyStatus === 'locked' ? 'Unlock' : 'Set key'}
+                    </button>
+                </div>
+            )}
+
+            {/* Reference Images */}
+            <ReferenceTray references={references} onChange={setReferences} onError={setError} />
+
             {/* Drawing Tools */}
             <div className="flex flex-col gap-3">
                 <label className="text-sm font-medium text-zinc-400">Tools</label>
-                <div className="grid grid-cols-4 gap-2 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
-                    <button 
-                        onClick={() => setTool('pencil')}
-                        className={`flex items-center justify-center py-2 rounded-md transition-colors ${tool === 'pencil' ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-500 hover:text-zinc-300'}`}
-                        title="Pencil"
-                    >
-                        <PencilIcon className="w-5 h-5" />
-                    </button>
-                    <button 
-                        onClick={() => setTool('eraser')}
-                        className={`flex items-center justify-center py-2 rounded-md transition-colors ${tool === 'eraser' ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-500 hover:text-zinc-300'}`}
-                        title="Eraser"
-                    >
-                        <EraserIcon className="w-5 h-5" />
-                    </button>
+                <div className="grid grid-cols-7 gap-1.5 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+                    {TOOLS.map(({ tool: t, title, key, Icon }) => (
+                        <button
+                            key={t}
+                            onClick={() => setTool(t)}
+                            className={`flex items-center justify-center py-2 rounded-md transition-colors ${tool === t ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+                            title={`${title} (${key.toUpperCase()})`}
+                        >
+                            <Icon className="w-5 h-5" />
+                        </button>
+                    ))}
                     <button 
                         onClick={handleUploadClick}
                         className="flex items-center justify-center py-2 rounded-md text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300 transition-colors"
@@ -174,14 +1026,131 @@ function App() {
                     ref={fileInputRef} 
                     onChange={handleFileChange} 
                     className="hidden" 
-                    accept="image/*"
+                    accept={IMAGE_ACCEPT}
                 />
 
+                {/* Fill Options */}
+                {tool === 'fill' && (
+                    <div className="space-y-2">
+                        <div className="flex justify-between text-xs text-zinc-500">
+                            <span>Fill Tolerance</span>
+                            <span>{fillTolerance}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0"
+                            max="100"
+                            value={fillTolerance}
+                            onChange={(e) => setFillTolerance(Number(e.target.value))}
+                            className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                        />
+                    </div>
+                )}
+
+                {/* Selection Options */}
+                {tool === 'select' && (
+                    <div className="flex flex-col gap-2">
+                        <div className="flex gap-2">
+                            <div className="grid grid-cols-2 gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+                                {([
+                                    { mode: 'rect', title: 'Rectangle Select', Icon: SquareIcon },
+                                    { mode: 'lasso', title: 'Lasso Select', Icon: LassoIcon },
+                                ] as const).map(({ mode, title, Icon }) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setSelectMode(mode)}
+                                        className={`flex items-center justify-center px-2 py-1.5 rounded-md transition-colors ${selectMode === mode ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+                                        title={title}
+                                    >
+                                        <Icon className="w-4 h-4" />
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex-1 grid grid-cols-4 gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+                                {[
+                                    { title: 'Cut (Ctrl+X)', Icon: ScissorsIcon, action: () => canvasRef.current?.cutSelection(), needsSelection: true },
+                                    { title: 'Copy (Ctrl+C)', Icon: CopyIcon, action: () => canvasRef.current?.copySelection(), needsSelection: true },
+                                    { title: 'Paste (Ctrl+V)', Icon: ClipboardIcon, action: () => canvasRef.current?.paste(), needsSelection: false },
+                                    { title: 'Transform (or drag inside the selection)', Icon: MoveIcon, action: () => canvasRef.current?.transformSelection(), needsSelection: true },
+                                ].map(({ title, Icon, action, needsSelection }) => (
+                                    <button
+                                        key={title}
+                                        onClick={action}
+                                        disabled={needsSelection && !hasSelection}
+                                        className="flex items-center justify-center py-1.5 rounded-md text-zinc-400 hover:text-zinc-200 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                                        title={title}
+                                    >
+                                        <Icon className="w-4 h-4" />
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <p className="text-xs text-zinc-500">
+                            Works on the active layer. Enter applies a transform, Esc cancels.
+                        </p>
+                    </div>
+                )}
+
+                {/* Mask Options */}
+                {tool === 'mask' && (
+                    <div className="flex flex-col gap-2">
+                        <div className="flex gap-2">
+                            <div className="flex-1 grid grid-cols-3 gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+                                {([
+                                    { mode: 'brush', title: 'Mask Brush', Icon: BrushIcon },
+                                    { mode: 'lasso', title: 'Mask Lasso', Icon: LassoIcon },
+                                    { mode: 'rect', title: 'Mask Rectangle', Icon: SquareIcon },
+                                ] as const).map(({ mode, title, Icon }) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setMaskMode(mode)}
+                                        className={`flex items-center justify-center py-1.5 rounded-md transition-colors ${maskMode === mode ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+                                        title={title}
+                                    >
+                                        <Icon className="w-4 h-4" />
+                                    </button>
+                                ))}
+                            </div>
+                            <button
+                                onClick={() => canvasRef.current?.clearMask()}
+                                className="px-3 rounded-lg bg-zinc-950 border border-zinc-800 text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
+                            >
+                                Clear Mask
+                            </button>
+                        </div>
+                        <p className="text-xs text-zinc-500">
+                            Only the red area will be edited. Hold Alt to subtract.
+                        </p>
+                    </div>
+                )}
+
+                {/* History */}
+                <div className="grid grid-cols-2 gap-2">
+                    <button 
+                        onClick={handleUndo}
+                        disabled={!historyState.canUndo}
+                        className="flex items-center justify-center gap-2 py-2 rounded-md bg-zinc-950 border border-zinc-800 text-xs text-zinc-400 hover:text-zinc-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Undo (Ctrl+Z)"
+                    >
+                        <UndoIcon className="w-4 h-4" />
+                        Undo
+                    </button>
+                    <button 
+                        onClick={handleRedo}
+                        disabled={!historyState.canRedo}
+                        className="flex items-center justify-center gap-2 py-2 rounded-md bg-zinc-950 border border-zinc-800 text-xs text-zinc-400 hover:text-zinc-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Redo (Ctrl+Shift+Z)"
+                    >
+                        <RedoIcon className="w-4 h-4" />
+                        Redo
+                    </button>
+                </div>
+
                 {/* Brush Size */}
                 <div className="space-y-2">
                     <div className="flex justify-between text-xs text-zinc-500">
-                        <span>Brush Size</span>
-                        <span>{brushSize}px</span>
+                        <span>{tool === 'text' ? 'Text Size' : 'Brush Size'}</span>
+                        <span>{tool === 'text' ? labelFontSize(brushSize) : brushSize}px</span>
                     </div>
                     <input 
                         type="range" 
@@ -193,52 +1162,101 @@ function App() {
                     />
                 </div>
 
-                {/* Colors */}
-                <div className="grid grid-cols-4 gap-2">
-                    {colors.map(c => (
-                        <button
-                            key={c}
-                            onClick={() => { setTool('pencil'); setColor(c); }}
-                            className={`w-full aspect-square rounded-full border-2 ${color === c && tool === 'pencil' ? 'border-yellow-500 scale-110' : 'border-zinc-700 hover:border-zinc-500'}`}
-                            style={{ backgroundColor: c }}
-                        />
-                    ))}
-                    {/* Color Picker */}
-                     <label className={`relative w-full aspect-square rounded-full border-2 flex items-center justify-center cursor-pointer ${!colors.includes(color) && tool === 'pencil' ? 'border-yellow-500' : 'border-zinc-700'}`} style={{background: 'conic-gradient(from 0deg, red, yellow, lime, aqua, blue, magenta, red)'}}>
-                        <input 
-                            type="color" 
-                            className="opacity-0 absolute inset-0 w-full h-full cursor-pointer"
-                            value={color}
-                            onChange={(e) => { setTool('pencil'); setColor(e.target.value); }}
-                        />
-                     </label>
+                {/* Stabilizer */}
+                <div className="space-y-2">
+                    <div className="flex justify-between text-xs text-zinc-500">
+                        <span>Smoothing</span>
+                        <span>{smoothing}%</span>
+                    </div>
+                    <input 
+                        type="range" 
+                        min="0" 
+                        max="90" 
+                        value={smoothing} 
+                        onChange={(e) => setSmoothing(Number(e.target.value))}
+                        className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                    />
                 </div>
+
+                {/* Brush */}
+                {(tool === 'pencil' || tool === 'eraser') && (
+                    <BrushPicker
+                        brush={brush}
+                        onChange={setBrush}
+                        customBrush={palette.customBrush}
+                        onSaveCustom={(customBrush) => setPalette(p => ({ ...p, customBrush }))}
+                    />
+                )}
+
+                {/* Colors */}
+                <ColorPalette
+                    colors={palette.colors}
+                    recent={palette.recent}
+                    color={color}
+                    highlight={COLOR_TOOLS.includes(tool)}
+                    onSelect={selectColor}
+                    onColorsChange={(colors) => setPalette(p => ({ ...p, colors }))}
+                />
             </div>
 
+            <GuidesPicker guides={guides} onChange={setGuides} />
+
+            <CanvasSizePicker size={documentSize} onChange={handleDocumentSizeChange} />
+
+            {/* Layers */}
+            <LayersPanel
+                layers={layers}
+                activeLayerId={activeLayerId}
+                sendSelectedOnly={sendSelectedOnly}
+                selectedLayerIds={selectedLayerIds}
+                onSelect={(id) => canvasRef.current?.setActiveLayer(id)}
+                onAdd={() => canvasRef.current?.addLayer()}
+                onRemove={(id) => canvasRef.current?.removeLayer(id)}
+                onMove={(id, direction) => canvasRef.current?.moveLayer(id, direction)}
+                onUpdate={(id, patch) => canvasRef.current?.updateLayer(id, patch)}
+                onToggleSendSelectedOnly={setSendSelectedOnly}
+                onToggleSelected={handleToggleLayerSelected}
+            />
+
             {/* Generate Action */}
-            <div className="mt-auto">
-                <button 
-                    onClick={handleGenerate}
-                    disabled={isGenerating}
-                    className="w-full py-4 bg-gradient-to-r from-yellow-400 to-orange-500 text-zinc-950 font-bold rounded-xl hover:opacity-90 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg shadow-orange-500/20"
-                >
-                    {isGenerating ? (
-                        <>
-                            <div className="w-5 h-5 border-2 border-zinc-900 border-t-transparent rounded-full animate-spin"></div>
-                            Working...
-                        </>
-                    ) : (
-                        <>
-                            <SparklesIcon className="w-5 h-5" />
-                            Generate / Edit
-                        </>
-                    )}
-                </button>
+            <div className="mt-auto flex flex-col gap-3">
+                <div className="flex items-center justify-between">
+                    <span className="text-xs text-zinc-500">Variations</span>
+                    <div className="flex gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+                        {[1, 2, 3, 4].map(n => (
+                            <button
+                                key={n}
+                                onClick={() => setVariationCount(n)}
+                                className={`w-7 h-7 rounded-md text-xs transition-colors ${variationCount === n ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+                            >
+                                {n}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                {isGenerating ? (
+                    <button
+                        onClick={handleCancel}
+                        className="w-full py-4 bg-zinc-800 text-zinc-200 font-bold rounded-xl hover:bg-zinc-700 active:scale-95 transition-all flex items-center justify-center gap-2"
+                        title="Cancel the running generation"
+                    >
+                        <div className="w-5 h-5 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin"></div>
+                        Cancel
+                    </button>
+                ) : (
+                    <button 
+                        onClick={handleGenerate}
+                        className="w-full py-4 bg-gradient-to-r from-yellow-400 to-orange-500 text-zinc-950 font-bold rounded-xl hover:opacity-90 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg shadow-orange-500/20"
+                    >
+                        <SparklesIcon className="w-5 h-5" />
+                        Generate / Edit
+                    </button>
+                )}
             </div>
         </aside>
 
         {/* Canvas Area */}
-        <div className="flex-1 bg-zinc-800 p-4 md:p-8 flex items-center justify-center relative overflow-hidden">
+        <div className="flex-1 bg-zinc-800 flex items-center justify-center relative overflow-hidden">
              {/* Background Grid Pattern */}
             <div className="absolute inset-0 opacity-10 pointer-events-none" 
                  style={{ 
@@ -247,54 +1265,149 @@ function App() {
                  }} 
             />
             
-            <div className="w-full h-full max-w-4xl max-h-[800px] shadow-2xl relative">
+            <div className="w-full h-full relative">
                 <DrawingCanvas 
                     ref={canvasRef} 
                     color={color} 
                     brushSize={brushSize} 
                     tool={tool}
-                    onCanvasChange={() => { /* Auto-save or state updates if needed */ }}
+                    maskMode={maskMode}
+                    smoothing={smoothing / 100}
+                    brush={brush}
+                    fillTolerance={fillTolerance / 100}
+                    onColorPick={handleColorPick}
+                    onCanvasChange={handleCanvasChange}
+                    onLayersChange={handleLayersChange}
+                    onSelectionChange={setHasSelection}
+                    selectMode={selectMode}
+                    onDocumentSizeChange={setDocumentSize}
+                    onError={setError}
+                    onImageDrop={openImageFile}
+                    onionSkin={storyboard && onionSkin ? previousFrame(storyboard)?.sketch : null}
+                    guides={guides}
+                    onGuidesChange={setGuides}
                 />
                 
                 {/* Floating Hint */}
                 <div className="absolute top-4 left-4 pointer-events-none bg-zinc-900/80 backdrop-blur px-3 py-1.5 rounded-full text-xs text-zinc-400 border border-zinc-700/50">
-                    Draw, drop, or upload an image
+                    Draw, drop, or upload an image · Space+drag to pan, Ctrl+scroll to zoom
                 </div>
             </div>
         </div>
 
-        {/* Generated Result Modal/Overlay */}
-        {generatedImage && (
-            <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
-                <div className="bg-zinc-900 border border-zinc-700 rounded-2xl p-4 max-w-4xl w-full max-h-[90vh] flex flex-col shadow-2xl">
-                    <div className="flex justify-between items-center mb-4">
-                        <h2 className="text-lg font-bold text-white flex items-center gap-2">
-                            <SparklesIcon className="text-yellow-400" />
-                            Result
-                        </h2>
-                        <button onClick={() => setGeneratedImage(null)} className="text-zinc-400 hover:text-white p-2">
-                            <CloseIcon className="w-6 h-6" />
-                        </button>
-                    </div>
-                    
-                    <div className="flex-1 overflow-hidden bg-black/50 rounded-lg flex items-center justify-center border border-zinc-800 relative">
-                        <img src={generatedImage} alt="Generated" className="max-w-full max-h-full object-contain" />
-                    </div>
+        {/* Refinement Thread */}
+        {session && sidePanel === 'session' && (
+            <SessionPanel
+                session={session}
+                onSend={handleSessionSend}
+                onCancel={handleCancel}
+                onSelectTurn={(id) => setSession({ ...session, activeId: id })}
+                onUseAsBase={handleSessionUseAsBase}
+                onDownload={handleSessionDownload}
+                onClose={() => setSidePanel(null)}
+            />
+        )}
 
-                    <div className="flex gap-3 mt-4 justify-end">
-                         <button 
-                            onClick={handleUseAsBase}
-                            className="px-4 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-200 flex items-center gap-2 text-sm font-medium transition-colors"
+        {showKeyDialog && (
+            <ApiKeyDialog
+                settings={providerSettings}
+                onSettingsChange={setProviderSettings}
+                onKeyStatusChange={setKeyStatus}
+                onClose={() => setShowKeyDialog(false)}
+            />
+        )}
+
+        {preprocessSource && (
+            <PreprocessDialog
+                source={preprocessSource.url}
+                onPlace={handlePlacePreprocessed}
+                onClose={() => setPreprocessSource(null)}
+            />
+        )}
+
+        {exportTarget && (
+            <ExportDialog
+                sketch={exportTarget.sketch}
+                result={exportTarget.result}
+                metadata={exportTarget.metadata}
+                onClose={() => setExportTarget(null)}
+            />
+        )}
+
+        {/* Batch Queue */}
+        {sidePanel === 'batch' && (
+            <BatchPanel
+                batch={batch}
+                prompt={composePrompt(activePreset, presetValues, prompt)}
+                onStart={handleBatchStart}
+                onResume={handleBatchResume}
+                onClose={() => setSidePanel(null)}
+            />
+        )}
+
+        {/* Storyboard */}
+        {sidePanel === 'storyboard' && (
+            <StoryboardPanel
+                storyboard={storyboard}
+                onionSkin={onionSkin}
+                onOnionSkinChange={setOnionSkin}
+                onStart={handleStoryboardStart}
+                onAddFrame={handleAddFrame}
+                onSelectFrame={handleSelectFrame}
+                onDeleteFrame={handleDeleteFrame}
+                onChange={setStoryboard}
+                onGenerate={handleStoryboardGenerate}
+                onCancel={handleCancel}
+                onExport={handleStoryboardExport}
+                onDiscard={() => setStoryboard(null)}
+                onClose={() => setSidePanel(null)}
+            />
+        )}
+
+        {/* History Gallery */}
+        {sidePanel === 'history' && (
+            <HistoryPanel
+                refreshKey={historyVersion}
+                onClose={() => setSidePanel(null)}
+                onOpen={handleOpenHistoryEntry}
+                onRestoreSketch={handleRestoreSketch}
+                onRerun={handleRerun}
+            />
+        )}
+
+        {/* Generated Results */}
+        {candidates.length > 0 && (
+            <ResultsGrid
+                candidates={candidates}
+                onClose={() => setCandidates([])}
+                onDownload={handleDownload}
+                onUseAsBase={handleUseAsBase}
+                onReroll={(candidate) => runCandidate(candidate.id)}
+                onRefine={handleRefine}
+                canReroll={lastRequest.current !== null}
+            />
+        )}
+
+        {/* Session Recovery */}
+        {recoverableSession && (
+            <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+                <div className="bg-zinc-900 border border-zinc-700 rounded-2xl p-6 max-w-sm w-full flex flex-col gap-4 shadow-2xl">
+                    <h2 className="text-lg font-bold text-white">Restore your previous session?</h2>
+                    <p className="text-sm text-zinc-400">
+                        We found unsaved work from {new Date(recoverableSession.savedAt).toLocaleString()}.
+                    </p>
+                    <div className="flex gap-3 justify-end">
+                        <button
+                            onClick={handleDiscardSession}
+                            className="px-4 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-sm font-medium transition-colors"
                         >
-                            <UndoIcon className="w-4 h-4" />
-                            Use as Base
+                            Discard
                         </button>
-                        <button 
-                            onClick={handleDownload}
-                            className="px-4 py-2 rounded-lg bg-yellow-500 hover:bg-yellow-400 text-zinc-900 flex items-center gap-2 text-sm font-bold transition-colors"
+                        <button
+                            onClick={handleRestoreSession}
+                            className="px-4 py-2 rounded-lg bg-yellow-500 hover:bg-yellow-400 text-zinc-900 text-sm font-bold transition-colors"
                         >
-                            <DownloadIcon className="w-4 h-4" />
-                            Download
+                            Restore
                         </button>
                     </div>
                 </div>
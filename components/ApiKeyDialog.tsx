@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { ProviderSettings } from '../services/providers';
+import { KeyStatus, forgetApiKey, getKeyStatus, saveApiKey, unlockApiKey, validateApiKey } from '../services/apiKeys';
+import { describeError } from '../services/errors';
+import { CloseIcon, KeyIcon, LockIcon } from './Icons';
+
+interface ApiKeyDialogProps {
+  settings: ProviderSettings;
+  onSettingsChange: (settings: ProviderSettings) => void;
+  /** Called whenever the key is saved, unlocked or removed. */
+  onKeyStatusChange: (status: KeyStatus) => void;
+  onClose: () => void;
+}
+
+type Message = { tone: 'ok' | 'error'; text: string };
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder-zinc-600";
+const buttonClass = "px-3 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const ApiKeyDialog: React.FC<ApiKeyDialogProps> = ({ settings, onSettingsChange, onKeyStatusChange, onClose }) => {
+  const [status, setStatus] = useState<KeyStatus>(getKeyStatus);
+  const [key, setKey] = useState('');
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<Message | null>(null);
+
+  const updateStatus = () => {
+    const next = getKeyStatus();
+    setStatus(next);
+    onKeyStatusChange(next);
+  };
+
+  // Runs an action with the busy state and turns failures into the inline message
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage({ tone: 'ok', text: await action() });
+    } catch (err) {
+      setMessage({ tone: 'error', text: describeError(err) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    const trimmed = key.trim();
+    if (encrypt && !passphrase) throw new Error("Enter a passphrase or untick encryption.");
+    await validateApiKey(trimmed);
+    await saveApiKey(trimmed, encrypt ? passphrase : undefined);
+    setKey('');
+    setPassphrase('');
+    updateStatus();
+    return encrypt ? "Key verified and saved, encrypted with your passphrase." : "Key verified and saved.";
+  });
+
+  const handleUnlock = () => run(async () => {
+    await unlockApiKey(unlockPassphrase);
+    setUnlockPassphrase('');
+    updateStatus();
+    return "Key unlocked for this session.";
+  });
+
+  const handleRemove = () => {
+    if (!confirm("Remove the saved API key from this browser?")) return;
+    forgetApiKey();
+    updateStatus();
+    setMessage(null);
+  };
+
+  const handleTestProxy = () => run(async () => {
+    const response = await fetch('/api/health').catch(() => null);
+    const health = await response?.json().catch(() => null);
+    if (!health?.ok) throw new Error("The proxy isn't reachable. Start it with `npm run proxy`.");
+    if (!health.hasKey) throw new Error("The proxy is running but has no GEMINI_API_KEY set.");
+    return "Proxy is running and has a key.";
+  });
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-2xl p-5 max-w-md w-full flex flex-col gap-4 shadow-2xl">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <KeyIcon className="w-5 h-5 text-yellow-400" />
+            Gemini API Key
+          </h2>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white p-1">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+          {[false, true].map(proxy => (
+            <button
+              key={String(proxy)}
+              onClick={() => onSettingsChange({ ...settings, geminiProxy: proxy })}
+              className={`flex-1 py-1.5 rounded-md text-xs transition-colors ${settings.geminiProxy === proxy ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+            >
+              {proxy ? 'Local proxy' : 'Key in this browser'}
+            </button>
+          ))}
+        </div>
+
+        {settings.geminiProxy ? (
+          <div className="flex flex-col gap-3 text-sm text-zinc-400">
+            <p>
+              Requests go through a small server on your machine that holds the key, so it never reaches the browser.
+              Put <code className="text-zinc-200">GEMINI_API_KEY</code> in <code className="text-zinc-200">.env.local</code> and
+              run <code className="text-zinc-200">npm run proxy</code> next to the dev server.
+            </p>
+            <button onClick={handleTestProxy} disabled={busy} className={`${buttonClass} self-start bg-zinc-800 hover:bg-zinc-700 text-zinc-200`}>
+              Test connection
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3">
+            {status === 'ready' && (
+              <div className="flex items-center justify-between text-sm text-green-400">
+                A key is configured for this browser.
+                <button onClick={handleRemove} className="text-xs text-zinc-500 hover:text-red-400 transition-colors">Remove</button>
+              </div>
+            )}
+            {status === 'missing' && (
+              <p className="text-sm text-zinc-400">
+                No key configured yet. Get one from{' '}
+                <a href="https://aistudio.google.com/apikey" target="_blank" rel="noreferrer" className="text-yellow-400 hover:underline">Google AI Studio</a>.
+              </p>
+            )}
+            {status === 'locked' && (
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between text-sm text-zinc-400">
+                  <span className="flex items-center gap-1.5"><LockIcon className="w-3.5 h-3.5" /> The saved key is encrypted.</span>
+                  <button onClick={handleRemove} className="text-xs text-zinc-500 hover:text-red-400 transition-colors">Remove</button>
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="password"
+                    className={inputClass}
+                    placeholder="Passphrase"
+                    value={unlockPassphrase}
+                    onChange={(e) => setUnlockPassphrase(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && unlockPassphrase && handleUnlock()}
+                  />
+                  <button onClick={handleUnlock} disabled={busy || !unlockPassphrase} className={`${buttonClass} bg-yellow-500 hover:bg-yellow-400 text-zinc-900`}>
+                    Unlock
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-col gap-2 pt-3 border-t border-zinc-800">
+              <label className="text-xs font-medium text-zinc-500">{status === 'missing' ? 'API key' : 'Replace with a new key'}</label>
+              <input
+                type="password"
+                className={inputClass}
+                placeholder="AIza..."
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+                autoComplete="off"
+              />
+              <label className="flex items-center gap-2 text-xs text-zinc-400">
+                <input type="checkbox" checked={encrypt} onChange={(e) => setEncrypt(e.target.checked)} className="accent-yellow-500" />
+                Encrypt with a passphrase (asked once per session)
+              </label>
+              {encrypt && (
+                <input
+                  type="password"
+                  className={inputClass}
+                  placeholder="Passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                />
+              )}
+              <button onClick={handleSave} disabled={busy || !key.trim()} className={`${buttonClass} bg-yellow-500 hover:bg-yellow-400 text-zinc-900`}>
+                {busy ? 'Checking...' : 'Validate & Save'}
+              </button>
+              <p className="text-[10px] text-zinc-600">The key is stored only in this browser's local storage and sent only to Google.</p>
+            </div>
+          </div>
+        )}
+
+        {message && (
+          <p className={`text-xs ${message.tone === 'ok' ? 'text-green-400' : 'text-red-400'}`}>{message.text}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyDialog;
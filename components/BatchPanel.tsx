@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BatchItem } from '../services/batchStore';
+import { BatchQueue, MAX_BATCH_CONCURRENCY } from '../hooks/useBatchQueue';
+import { IMAGE_ACCEPT } from '../utils/image';
+import { CloseIcon, DownloadIcon, PauseIcon, PlayIcon, RefreshIcon, StackIcon, TrashIcon } from './Icons';
+
+interface BatchPanelProps {
+  batch: BatchQueue;
+  /** The prompt a new batch will use: the current instruction with the preset applied. */
+  prompt: string;
+  onStart: (files: File[], concurrency: number) => void;
+  onResume: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  queued: 'text-zinc-500',
+  running: 'text-yellow-400',
+  done: 'text-green-400',
+  error: 'text-red-400',
+};
+
+const actionClass = "px-2.5 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-200 flex items-center gap-1.5 text-xs font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Object URL for a stored Blob, released when the blob changes or the row goes away
+const BatchThumb: React.FC<{ blob: Blob; alt: string }> = ({ blob, alt }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const next = URL.createObjectURL(blob);
+    setUrl(next);
+    return () => URL.revokeObjectURL(next);
+  }, [blob]);
+  return url ? <img src={url} alt={alt} className="w-12 h-12 rounded object-cover bg-zinc-800 shrink-0" /> : null;
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ batch, prompt, onStart, onResume, onClose }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [concurrency, setConcurrency] = useState(2);
+  const { job, items } = batch;
+
+  const count = (status: BatchItem['status']) => items.filter(i => i.status === status).length;
+  const done = count('done');
+  const failed = count('error');
+  const remaining = count('queued') + count('running');
+
+  const addFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    if (items.length > 0 && !confirm("Replace the current batch? Its results will be discarded unless you downloaded them.")) return;
+    onStart(files, job?.concurrency ?? concurrency);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    addFiles([...e.dataTransfer.files]);
+  };
+
+  return (
+    <div
+      className="absolute inset-y-0 right-0 z-40 w-full sm:w-96 bg-zinc-900 border-l border-zinc-800 shadow-2xl flex flex-col animate-in slide-in-from-right duration-200"
+      onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+    >
+      <div className="flex justify-between items-center p-4 border-b border-zinc-800">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2">
+          <StackIcon className="w-5 h-5 text-yellow-400" />
+          Batch
+        </h2>
+        <button onClick={onClose} className="text-zinc-400 hover:text-white p-1">
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-zinc-800 flex flex-col gap-3">
+        <div className="text-xs text-zinc-500">
+          <span className="font-medium text-zinc-400">{job ? 'Prompt for this batch' : 'Prompt'}:</span>{' '}
+          {(job ? job.prompt : prompt) || <span className="italic">none; the model will just enhance each image</span>}
+        </div>
+        <div className="flex items-center justify-between">
+          <label className="text-xs text-zinc-500">At once</label>
+          <div className="flex gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+            {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+              <button
+                key={n}
+                onClick={() => job ? batch.setConcurrency(n) : setConcurrency(n)}
+                className={`w-7 h-7 rounded-md text-xs transition-colors ${(job?.concurrency ?? concurrency) === n ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+              >
+                {n}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className={`py-4 rounded-lg border border-dashed text-xs transition-colors ${dragOver ? 'border-yellow-500 text-yellow-500' : 'border-zinc-700 text-zinc-500 hover:text-zinc-300'}`}
+        >
+          {items.length > 0 ? 'Drop files to start a new batch' : 'Drop sketches or photos here, or click to pick'}
+        </button>
+        <input
+          type="file"
+          ref={inputRef}
+          className="hidden"
+          accept={IMAGE_ACCEPT}
+          multiple
+          onChange={(e) => {
+            addFiles([...(e.target.files ?? [])]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {job && (
+        <div className="px-4 py-3 border-b border-zinc-800 flex flex-col gap-2">
+          <div className="flex items-center justify-between text-xs text-zinc-400">
+            <span>{done}/{items.length} done{failed > 0 && <span className="text-red-400"> · {failed} failed</span>}</span>
+            {job.paused && remaining > 0 && <span className="text-yellow-500">Paused</span>}
+          </div>
+          <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+            <div className="h-full bg-yellow-500 transition-all" style={{ width: `${items.length ? (done / items.length) * 100 : 0}%` }} />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {job.paused ? (
+              <button onClick={onResume} disabled={remaining === 0} className={actionClass}>
+                <PlayIcon className="w-3.5 h-3.5" /> Resume
+              </button>
+            ) : (
+              <button onClick={batch.pause} disabled={remaining === 0} className={actionClass}>
+                <PauseIcon className="w-3.5 h-3.5" /> Pause
+              </button>
+            )}
+            <button onClick={batch.retryFailed} disabled={failed === 0} className={actionClass}>
+              <RefreshIcon className="w-3.5 h-3.5" /> Retry failed
+            </button>
+            <button onClick={batch.downloadZip} disabled={done === 0} className={actionClass}>
+              <DownloadIcon className="w-3.5 h-3.5" /> Zip
+            </button>
+            <button
+              onClick={() => confirm("Clear the batch and its results?") && batch.clear()}
+              className={`${actionClass} ml-auto`}
+              title="Clear batch"
+            >
+              <TrashIcon className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-2 flex flex-col gap-1">
+        {items.map(item => (
+          <div key={item.id} className="flex items-center gap-2 p-1.5 rounded-lg hover:bg-zinc-800/50">
+            <BatchThumb blob={item.result ?? item.source} alt={item.fileName} />
+            <div className="flex-1 min-w-0">
+              <div className="text-xs text-zinc-300 truncate" title={item.fileName}>{item.fileName}</div>
+              <div className={`text-[10px] ${STATUS_STYLES[item.status]}`}>
+                {item.status === 'running' ? 'Generating...' : item.status}
+                {item.attempts > 1 && ` · attempt ${item.attempts}`}
+              </div>
+              {item.error && <div className="text-[10px] text-red-400/80 line-clamp-2" title={item.error}>{item.error}</div>}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
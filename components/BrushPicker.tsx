@@ -0,0 +1,73 @@
+import React from 'react';
+import { BRUSH_PRESETS, BrushSettings, sameBrush } from '../utils/brush';
+import { SaveIcon } from './Icons';
+
+interface BrushPickerProps {
+  brush: BrushSettings;
+  onChange: (brush: BrushSettings) => void;
+  /** The user's saved brush, offered next to the presets. */
+  customBrush: BrushSettings | null;
+  onSaveCustom: (brush: BrushSettings) => void;
+}
+
+const chipClass = (active: boolean) =>
+  `px-2 py-1 rounded-md text-xs border transition-colors ${active ? 'border-yellow-500 text-yellow-400' : 'border-zinc-700 text-zinc-400 hover:text-zinc-200'}`;
+
+const SLIDERS: { key: 'opacity' | 'hardness' | 'spacing'; label: string; min: number }[] = [
+  { key: 'opacity', label: 'Opacity', min: 5 },
+  { key: 'hardness', label: 'Hardness', min: 0 },
+  { key: 'spacing', label: 'Spacing', min: 2 },
+];
+
+/** Brush presets for the pencil and eraser, with the main settings exposed as sliders. */
+const BrushPicker: React.FC<BrushPickerProps> = ({ brush, onChange, customBrush, onSaveCustom }) => {
+  const isCustom = customBrush !== null && sameBrush(brush, customBrush);
+  const activePreset = isCustom ? undefined : BRUSH_PRESETS.find(p => sameBrush(p.settings, brush));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {BRUSH_PRESETS.map(preset => (
+          <button key={preset.id} onClick={() => onChange(preset.settings)} className={chipClass(activePreset?.id === preset.id)}>
+            {preset.name}
+          </button>
+        ))}
+        {customBrush && (
+          <button onClick={() => onChange(customBrush)} className={chipClass(isCustom)} title="Your saved brush">
+            My brush
+          </button>
+        )}
+      </div>
+
+      {SLIDERS.map(({ key, label, min }) => (
+        <div key={key} className="space-y-1">
+          <div className="flex justify-between text-xs text-zinc-500">
+            <span>{label}</span>
+            <span>{Math.round(brush[key] * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min={min}
+            max="100"
+            value={Math.round(brush[key] * 100)}
+            onChange={(e) => onChange({ ...brush, [key]: Number(e.target.value) / 100 })}
+            className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+          />
+        </div>
+      ))}
+
+      {!activePreset && !isCustom && (
+        <button
+          onClick={() => onSaveCustom(brush)}
+          className="w-full flex items-center justify-center gap-2 py-1.5 rounded-md bg-zinc-950 border border-zinc-800 text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
+          title={customBrush ? 'Replace your saved brush with these settings' : 'Keep these settings as your own brush'}
+        >
+          <SaveIcon className="w-3.5 h-3.5" />
+          Save as my brush
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BrushPicker;
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { DocumentSize, MAX_DOCUMENT_SIZE, MIN_DOCUMENT_SIZE } from './DrawingCanvas';
+
+interface CanvasSizePickerProps {
+  size: DocumentSize;
+  onChange: (size: DocumentSize) => void;
+}
+
+const PRESETS: { label: string; width: number; height: number }[] = [
+  { label: '1:1', width: 1024, height: 1024 },
+  { label: '16:9', width: 1920, height: 1080 },
+  { label: '9:16', width: 1080, height: 1920 },
+];
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-yellow-500 focus:outline-none";
+
+const CanvasSizePicker: React.FC<CanvasSizePickerProps> = ({ size, onChange }) => {
+  // Custom values are only applied on demand, so typing doesn't resample on every keystroke
+  const [custom, setCustom] = useState(size);
+  useEffect(() => setCustom(size), [size.width, size.height]);
+
+  const isCurrent = (w: number, h: number) => size.width === w && size.height === h;
+  const customChanged = !isCurrent(custom.width, custom.height);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-sm font-medium text-zinc-400">Canvas Size</label>
+      <div className="grid grid-cols-3 gap-2">
+        {PRESETS.map(p => (
+          <button
+            key={p.label}
+            onClick={() => onChange({ width: p.width, height: p.height })}
+            className={`py-1.5 rounded-lg text-xs border transition-all ${isCurrent(p.width, p.height) ? 'border-yellow-500 text-yellow-500 bg-yellow-500/10' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500'}`}
+            title={`${p.width}×${p.height}`}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={MIN_DOCUMENT_SIZE}
+          max={MAX_DOCUMENT_SIZE}
+          className={inputClass}
+          value={custom.width}
+          onChange={(e) => setCustom({ ...custom, width: Number(e.target.value) })}
+        />
+        <span className="text-zinc-600 text-xs">×</span>
+        <input
+          type="number"
+          min={MIN_DOCUMENT_SIZE}
+          max={MAX_DOCUMENT_SIZE}
+          className={inputClass}
+          value={custom.height}
+          onChange={(e) => setCustom({ ...custom, height: Number(e.target.value) })}
+        />
+        <button
+          onClick={() => onChange(custom)}
+          disabled={!customChanged}
+          className="px-2 py-1.5 rounded-lg text-xs border border-zinc-700 text-zinc-300 hover:border-zinc-500 disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          Set
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CanvasSizePicker;
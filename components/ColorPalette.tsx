@@ -0,0 +1,79 @@
+import React from 'react';
+import { MAX_PALETTE_COLORS, sameColor } from '../services/palette';
+import { CloseIcon, PlusIcon } from './Icons';
+
+interface ColorPaletteProps {
+  colors: string[];
+  recent: string[];
+  color: string;
+  /** Whether the current tool paints with the colour; the selection is only highlighted then. */
+  highlight: boolean;
+  onSelect: (color: string) => void;
+  onColorsChange: (colors: string[]) => void;
+}
+
+/** Editable swatches, a free colour picker and the most recently used colours. */
+const ColorPalette: React.FC<ColorPaletteProps> = ({ colors, recent, color, highlight, onSelect, onColorsChange }) => {
+  const inPalette = colors.some(c => sameColor(c, color));
+  const canAdd = !inPalette && colors.length < MAX_PALETTE_COLORS;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-4 gap-2">
+        {colors.map(c => (
+          <div key={c} className="relative group">
+            <button
+              onClick={() => onSelect(c)}
+              className={`w-full aspect-square rounded-full border-2 ${sameColor(color, c) && highlight ? 'border-yellow-500 scale-110' : 'border-zinc-700 hover:border-zinc-500'}`}
+              style={{ backgroundColor: c }}
+            />
+            <button
+              onClick={() => onColorsChange(colors.filter(other => other !== c))}
+              className="absolute -top-1 -right-1 hidden group-hover:flex items-center justify-center w-4 h-4 rounded-full bg-zinc-800 border border-zinc-600 text-zinc-400 hover:text-white"
+              title="Remove from palette"
+            >
+              <CloseIcon className="w-2.5 h-2.5" />
+            </button>
+          </div>
+        ))}
+        {/* Color Picker */}
+        <label className={`relative w-full aspect-square rounded-full border-2 flex items-center justify-center cursor-pointer ${!inPalette && highlight ? 'border-yellow-500' : 'border-zinc-700'}`} style={{ background: 'conic-gradient(from 0deg, red, yellow, lime, aqua, blue, magenta, red)' }}>
+          <input
+            type="color"
+            className="opacity-0 absolute inset-0 w-full h-full cursor-pointer"
+            value={color}
+            onChange={(e) => onSelect(e.target.value)}
+          />
+        </label>
+        {canAdd && (
+          <button
+            onClick={() => onColorsChange([...colors, color])}
+            className="w-full aspect-square rounded-full border-2 border-dashed border-zinc-700 hover:border-zinc-500 flex items-center justify-center text-zinc-500 hover:text-zinc-300"
+            title="Add the current colour to the palette"
+          >
+            <PlusIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {recent.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-xs text-zinc-500">Recent</span>
+          <div className="flex gap-1.5">
+            {recent.map(c => (
+              <button
+                key={c}
+                onClick={() => onSelect(c)}
+                className="w-5 h-5 rounded-full border border-zinc-700 hover:border-zinc-500"
+                style={{ backgroundColor: c }}
+                title={c}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColorPalette;
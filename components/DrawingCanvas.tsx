@@ -1,154 +1,1614 @@
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
+import { OperationHistory } from '../utils/history';
+import {
+  Layer,
+  LayerSurface,
+  Surface,
+  createLayer,
+  createLayerSurface,
+  createSurface,
+  clearSurface,
+  compositeLayers,
+} from '../utils/layers';
+import { isCanvasEmpty, maskToDataURL } from '../utils/mask';
+import { createCanvas, decodeImageFile, imageFileType, isImageFile, loadImage } from '../utils/image';
+import { Stabilizer, StrokePoint, StrokeStyle, drawStroke, drawStrokeSegment } from '../utils/stroke';
+import { LABEL_FONT, Point, ShapeKind, constrainShape, drawLabel, drawShape } from '../utils/shapes';
+import { findFillRegion, paintRegion } from '../utils/fill';
+import {
+  Handle,
+  ImageSource,
+  TransformedImage,
+  containsPoint,
+  cropTo,
+  drawTransformedImage,
+  moveBy,
+  placeImage,
+  resizeTo,
+  rotateTo,
+} from '../utils/transform';
+import {
+  Selection,
+  SelectionShape,
+  createSelection,
+  eraseMasked,
+  extractSelection,
+  selectionContains,
+  traceSelection,
+} from '../utils/selection';
+import {
+  GuideSettings,
+  SNAP_LOCK_DISTANCE,
+  closestDirection,
+  hasGuides,
+  projectOntoLine,
+  snapDirections,
+  symmetryTransforms,
+} from '../utils/guides';
+import { BrushSettings, BrushStroke, beginBrushStroke, drawBrushSegment, drawBrushStroke, presentBrushStroke } from '../utils/brush';
+import TransformOverlay, { TransformMode } from './TransformOverlay';
+import GuideOverlay, { GuideHandle } from './GuideOverlay';
+
+export const DRAWING_TOOLS = ['pencil', 'eraser', 'select', 'line', 'arrow', 'rect', 'ellipse', 'fill', 'eyedropper', 'text', 'mask'] as const;
+export type DrawingTool = typeof DRAWING_TOOLS[number];
+export type MaskMode = 'brush' | 'lasso' | 'rect';
+
+const SHAPE_TOOLS: readonly DrawingTool[] = ['line', 'arrow', 'rect', 'ellipse'];
+const isShapeTool = (tool: DrawingTool): tool is ShapeKind => SHAPE_TOOLS.includes(tool);
+
+/** Label size for the text tool, derived from the brush size slider. */
+export const labelFontSize = (brushSize: number) => Math.max(12, brushSize * 3);
 
 interface DrawingCanvasProps {
   color: string;
   brushSize: number;
-  tool: 'pencil' | 'eraser';
+  tool: DrawingTool;
+  maskMode?: MaskMode;
+  selectMode?: SelectionShape;
+  /** Stroke stabilizer strength, 0 (raw input) to 1 (heavy smoothing). */
+  smoothing?: number;
+  /** Brush used by the pencil and eraser. Defaults to a plain round pen. */
+  brush?: BrushSettings;
+  /** How different a pixel may be from the clicked one and still get filled, 0 to 1. */
+  fillTolerance?: number;
+  /** Called with a #rrggbb colour when the eyedropper samples the canvas. */
+  onColorPick?: (color: string) => void;
   onCanvasChange: () => void;
+  onLayersChange?: (layers: Layer[], activeLayerId: string) => void;
+  onSelectionChange?: (hasSelection: boolean) => void;
+  /** Document size used until the user picks another one. */
+  defaultDocumentSize?: DocumentSize;
+  onDocumentSizeChange?: (size: DocumentSize) => void;
+  /** Dropped or pasted files that couldn't be decoded. */
+  onError?: (message: string) => void;
+  /**
+   * Image files dropped onto the canvas, with the drop position in document pixels. When set,
+   * the parent places them (e.g. after the cleanup dialog); otherwise they float where dropped.
+   */
+  onImageDrop?: (file: File, at: Point) => void;
+  /** Image shown faintly over the drawing (the previous storyboard frame). Display only, never exported. */
+  onionSkin?: string | null;
+  /** Symmetry, grid and perspective aids. Drawn on an overlay only, never exported. */
+  guides?: GuideSettings;
+  /** Called while the symmetry centre or a vanishing point is dragged. */
+  onGuidesChange?: (guides: GuideSettings) => void;
+}
+
+/** Pixel size of the document. Exports always come out at exactly this size. */
+export interface DocumentSize {
+  width: number;
+  height: number;
+}
+
+export const MIN_DOCUMENT_SIZE = 64;
+export const MAX_DOCUMENT_SIZE = 4096;
+export const DEFAULT_DOCUMENT_SIZE: DocumentSize = { width: 1024, height: 1024 };
+
+export const clampDocumentSize = ({ width, height }: DocumentSize): DocumentSize => ({
+  width: Math.round(Math.min(MAX_DOCUMENT_SIZE, Math.max(MIN_DOCUMENT_SIZE, width || 0))),
+  height: Math.round(Math.min(MAX_DOCUMENT_SIZE, Math.max(MIN_DOCUMENT_SIZE, height || 0))),
+});
+
+export interface ExportOptions {
+  /** Only flatten these layers (still respecting visibility). Defaults to all visible layers. */
+  layerIds?: string[];
+}
+
+/** Serializable snapshot of the whole canvas: every layer as a PNG plus the mask. */
+export interface CanvasDocument {
+  width: number;
+  height: number;
+  layers: (Layer & { image: string })[];
+  activeLayerId: string;
+  mask: string | null;
 }
 
 export interface DrawingCanvasRef {
   clear: () => void;
-  getDataURL: () => string;
-  loadDataURL: (url: string) => void;
+  getDataURL: (options?: ExportOptions) => string;
+  /** Replaces the drawing with an image; resolves once it is on the canvas. */
+  loadDataURL: (url: string) => Promise<void>;
+  /** Adds an image as a floating object on the reference layer, to be positioned and committed with Enter. */
+  placeImage: (url: string, at?: Point) => Promise<void>;
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  /** Forgets undo/redo and starts over from what's on the canvas now. */
+  resetHistory: () => void;
+  addLayer: () => void;
+  removeLayer: (id: string) => void;
+  moveLayer: (id: string, direction: 'up' | 'down') => void;
+  updateLayer: (id: string, patch: Partial<Pick<Layer, 'name' | 'visible' | 'opacity' | 'locked'>>) => void;
+  setActiveLayer: (id: string) => void;
+  /** Black/white PNG of the inpainting mask (white = edit), or null when nothing is masked. */
+  getMaskDataURL: () => string | null;
+  clearMask: () => void;
+  getDocument: () => CanvasDocument;
+  /** Replaces everything on the canvas. Undo history starts over from the loaded document. */
+  loadDocument: (doc: CanvasDocument) => Promise<void>;
+  getDocumentSize: () => DocumentSize;
+  /** Changes the document resolution, resampling existing content to fit. Resets undo history. */
+  setDocumentSize: (size: DocumentSize) => void;
+  zoomIn: () => void;
+  zoomOut: () => void;
+  fitToScreen: () => void;
+  hasSelection: () => boolean;
+  selectAll: () => void;
+  deselect: () => void;
+  copySelection: () => boolean;
+  cutSelection: () => boolean;
+  deleteSelection: () => boolean;
+  /** Lifts the selected pixels off the active layer and shows transform handles. */
+  transformSelection: () => boolean;
+  /** Pastes the last copied selection, or an image from the system clipboard. */
+  paste: () => Promise<void>;
+}
+
+// Everything that changes the canvas is recorded as one of these so it can be replayed.
+export type CanvasOperation =
+  // `mirrors` are the symmetry copies, drawn with the same style as part of the same stroke.
+  // `brush` is only set for brushes other than the plain pen.
+  | { type: 'stroke'; layerId: string; points: StrokePoint[]; mirrors?: StrokePoint[][]; color: string; size: number; erase: boolean; brush?: BrushSettings }
+  // Places a (possibly cropped/rotated) image; `lift` is the area it was cut from on the same layer
+  | { type: 'image'; layerId: string; object: TransformedImage; lift?: HTMLCanvasElement }
+  | { type: 'erase'; layerId: string; mask: HTMLCanvasElement }
+  | { type: 'load'; layerId: string; image: HTMLImageElement }
+  | { type: 'clear' }
+  | { type: 'addLayer'; layer: Layer; index: number }
+  | { type: 'removeLayer'; layerId: string }
+  | { type: 'moveLayer'; layerId: string; index: number }
+  | { type: 'shape'; layerId: string; shape: ShapeKind; from: Point; to: Point; color: string; size: number }
+  // The region (1 = fill, one entry per pixel) is found once when filling, since it depends on
+  // which layers were visible at the time
+  | { type: 'fill'; layerId: string; region: Uint8Array; color: string }
+  | { type: 'text'; layerId: string; x: number; y: number; text: string; color: string; fontSize: number }
+  | { type: 'mask'; shape: MaskMode; points: StrokePoint[]; size: number; erase: boolean }
+  | { type: 'clearMask' };
+
+type MaskOperation = Extract<CanvasOperation, { type: 'mask' }>;
+
+interface CanvasSnapshot {
+  layers: Layer[];
+  pixels: Map<string, ImageData>;
+  mask: ImageData;
+}
+
+// The mask is stored as opaque paint and shown as a translucent tint over the drawing
+const MASK_COLOR = '#ef4444';
+const MASK_OVERLAY_OPACITY = 0.45;
+
+// Zoom limits and the step used by the zoom buttons/shortcuts
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 16;
+const ZOOM_STEP = 1.25;
+// Margin kept around the document when fitting it to the screen
+const FIT_PADDING = 24;
+// Touch input is ignored for this long after the last pen event (palm rejection)
+const PALM_REJECTION_MS = 500;
+
+interface ViewTransform {
+  x: number;
+  y: number;
+  zoom: number;
 }
 
-const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ color, brushSize, tool, onCanvasChange }, ref) => {
+const IDENTITY_VIEW: ViewTransform = { x: 0, y: 0, zoom: 1 };
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+interface TrackedPointer {
+  x: number;
+  y: number;
+  type: string;
+}
+
+// Traces a lasso polygon or a rectangle spanning the first and last point
+const drawMaskShape = (ctx: CanvasRenderingContext2D, op: MaskOperation) => {
+  if (op.shape === 'brush') {
+    drawStroke(ctx, op.points, { size: op.size, color: MASK_COLOR, erase: op.erase });
+    return;
+  }
+  if (op.points.length < 2) return;
+  ctx.save();
+  ctx.globalCompositeOperation = op.erase ? 'destination-out' : 'source-over';
+  ctx.fillStyle = MASK_COLOR;
+  traceSelection(ctx, op.shape, op.points);
+  ctx.fill();
+  ctx.restore();
+};
+
+const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({
+  color,
+  brushSize,
+  tool,
+  maskMode = 'brush',
+  selectMode = 'rect',
+  smoothing = 0,
+  brush,
+  fillTolerance = 0.15,
+  onColorPick,
+  onCanvasChange,
+  onLayersChange,
+  onSelectionChange,
+  defaultDocumentSize = DEFAULT_DOCUMENT_SIZE,
+  onDocumentSizeChange,
+  onError,
+  onImageDrop,
+  onionSkin,
+  guides,
+  onGuidesChange,
+}: DrawingCanvasProps, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [context, setContext] = useState<CanvasRenderingContext2D | null>(null);
-  const lastPos = useRef<{ x: number; y: number } | null>(null);
+  const currentStroke = useRef<StrokePoint[]>([]);
+  // Document size; canvas pixels map 1:1 to document pixels, zoom is purely a view transform
+  const sizeRef = useRef<DocumentSize>({ width: 0, height: 0 });
+  const historyRef = useRef<OperationHistory<CanvasOperation, CanvasSnapshot> | null>(null);
+
+  // Layers are ordered bottom to top. Surfaces are pooled by id so undo can bring a layer back.
+  const layersRef = useRef<LayerSurface[]>([]);
+  const surfacePool = useRef(new Map<string, LayerSurface>());
+  const activeLayerId = useRef<string>('');
+  const compositeFrame = useRef<number | null>(null);
+
+  // Inpainting mask lives outside the layer stack and is never part of exports
+  const maskRef = useRef<Surface | null>(null);
+  // Lasso/rectangle being dragged, drawn on top of everything until committed
+  const shapePreview = useRef<{ shape: 'lasso' | 'rect'; points: StrokePoint[]; erase: boolean } | null>(null);
+  // Line/rect/ellipse/arrow being dragged out; drawn over the composite until released
+  const shapeDraft = useRef<{ pointerId: number; shape: ShapeKind; from: Point; to: Point; color: string; size: number } | null>(null);
+  // Text label being typed, in document coordinates
+  const [textDraft, setTextDraft] = useState<{ x: number; y: number; value: string } | null>(null);
+
+  // Current selection, and the outline while one is being dragged out
+  const selectionRef = useRef<Selection | null>(null);
+  const selectionDraft = useRef<{ shape: SelectionShape; points: Point[] } | null>(null);
+  // Image waiting to be placed with the transform handles. `lift` is set when it was cut out
+  // of its layer; those pixels are already gone from the layer until Enter or Esc.
+  const [floating, setFloatingState] = useState<{ object: TransformedImage; layerId: string; lift: HTMLCanvasElement | null } | null>(null);
+  const floatingRef = useRef<typeof floating>(null);
+  const [cropping, setCropping] = useState(false);
+  const floatDrag = useRef<{ pointerId: number; mode: TransformMode; handle?: Handle; from: Point; start: TransformedImage } | null>(null);
+  // Last copied pixels. `fresh` goes false when the window loses focus, since the user may have
+  // copied something else in another app by the time they paste.
+  const clipboard = useRef<{ image: HTMLCanvasElement; bounds: Selection['bounds']; fresh: boolean } | null>(null);
+
+  // Live stroke state: where it's drawn, how, and which pointer is drawing it
+  const strokeTarget = useRef<Surface | null>(null);
+  const strokeStyle = useRef<StrokeStyle | null>(null);
+  const stabilizer = useRef<Stabilizer | null>(null);
+  const drawingPointer = useRef<number | null>(null);
+  // Symmetry copies of the live stroke, each with the transform that produces it
+  const mirrorStrokes = useRef<{ transform: (p: StrokePoint) => StrokePoint; points: StrokePoint[] }[]>([]);
+  // Buffer for brushes that are composited onto the layer instead of painted straight on
+  const brushStroke = useRef<BrushStroke | null>(null);
+  // Perspective snapping: points are held back until the pen has moved far enough to pick a guide
+  const snapping = useRef<{ origin: Point; direction: Point | null; pending: StrokePoint[] } | null>(null);
+  // Symmetry centre or vanishing point being dragged
+  const guideDrag = useRef<{ pointerId: number; handle: GuideHandle } | null>(null);
+
+  // Pointers currently down (client coordinates), for telling drawing from two-finger gestures
+  const pointers = useRef<Map<number, TrackedPointer>>(new Map());
+  const lastPenTime = useRef(0);
+  const [view, setViewState] = useState<ViewTransform>(IDENTITY_VIEW);
+  // Mirrors `view` for code that runs outside React's render (listeners, rAF painting)
+  const viewRef = useRef<ViewTransform>(IDENTITY_VIEW);
+  // While true the document is refitted whenever the container resizes; any manual zoom/pan clears it
+  const autoFit = useRef(true);
+  const gesture = useRef<{ distance: number; midX: number; midY: number; view: ViewTransform } | null>(null);
+  // Middle-mouse or Space+drag panning
+  const pan = useRef<{ pointerId: number; startX: number; startY: number; view: ViewTransform } | null>(null);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+
+  const setView = (next: ViewTransform) => {
+    viewRef.current = next;
+    setViewState(next);
+  };
+
+  const fitToScreen = () => {
+    const container = containerRef.current;
+    const { width, height } = sizeRef.current;
+    if (!container || !width || !height) return;
+    const availableW = Math.max(1, container.clientWidth - FIT_PADDING * 2);
+    const availableH = Math.max(1, container.clientHeight - FIT_PADDING * 2);
+    const zoom = clampZoom(Math.min(availableW / width, availableH / height));
+    autoFit.current = true;
+    setView({
+      zoom,
+      x: (container.clientWidth - width * zoom) / 2,
+      y: (container.clientHeight - height * zoom) / 2,
+    });
+  };
+
+  // Zooms keeping the document point under (clientX, clientY) in place; defaults to the container centre
+  const zoomAt = (zoom: number, clientX?: number, clientY?: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const rect = container.getBoundingClientRect();
+    const current = viewRef.current;
+    const anchorX = (clientX ?? rect.left + rect.width / 2) - rect.left;
+    const anchorY = (clientY ?? rect.top + rect.height / 2) - rect.top;
+    const next = clampZoom(zoom);
+    autoFit.current = false;
+    setView({
+      zoom: next,
+      x: anchorX - ((anchorX - current.x) / current.zoom) * next,
+      y: anchorY - ((anchorY - current.y) / current.zoom) * next,
+    });
+  };
+
+  const getSurface = (id: string) => layersRef.current.find(s => s.layer.id === id);
+
+  const getOrCreateSurface = (layer: Layer) => {
+    let surface = surfacePool.current.get(layer.id);
+    if (!surface) {
+      const canvas = canvasRef.current!;
+      surface = createLayerSurface(layer, canvas.width, canvas.height);
+      surfacePool.current.set(layer.id, surface);
+    }
+    return surface;
+  };
+
+  const getBackgroundSurface = () => layersRef.current.find(s => s.layer.kind === 'background');
+
+  // Flattens the visible layers onto a scratch canvas: what the user sees, minus overlays
+  const flatten = (include?: (layer: Layer) => boolean) => {
+    const { width, height } = sizeRef.current;
+    const { canvas, ctx } = createCanvas(width, height);
+    compositeLayers(ctx, layersRef.current, include);
+    return { canvas, ctx };
+  };
+
+  // Draws the layers, then display-only extras (shape draft, floating image, mask tint, outlines) on the visible canvas
+  const paint = () => {
+    if (!context) return;
+    compositeLayers(context, layersRef.current);
+
+    const draft = shapeDraft.current;
+    if (draft) drawShape(context, draft.shape, draft.from, draft.to, draft);
+
+    const float = floatingRef.current;
+    if (float) {
+      context.save();
+      context.globalAlpha = getSurface(float.layerId)?.layer.opacity ?? 1;
+      drawTransformedImage(context, float.object);
+      context.restore();
+    }
+
+    const mask = maskRef.current;
+    const preview = shapePreview.current;
+    const outline = selectionDraft.current ?? selectionRef.current;
+    if (!mask && !preview && !outline) return;
+
+    context.save();
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    if (mask) {
+      context.globalAlpha = MASK_OVERLAY_OPACITY;
+      context.drawImage(mask.canvas, 0, 0);
+    }
+    if (preview && preview.points.length > 1) {
+      context.globalAlpha = 1;
+      // Keep the outline thin on screen regardless of zoom
+      const { zoom } = viewRef.current;
+      context.lineWidth = 1.5 / zoom;
+      context.setLineDash([6 / zoom, 4 / zoom]);
+      context.strokeStyle = preview.erase ? '#3f3f46' : MASK_COLOR;
+      traceSelection(context, preview.shape, preview.points);
+      context.stroke();
+    }
+    if (outline && outline.points.length > 1) {
+      // Two offset dash passes so the outline shows on both light and dark pixels
+      const { zoom } = viewRef.current;
+      context.globalAlpha = 1;
+      context.lineWidth = 1 / zoom;
+      context.setLineDash([4 / zoom, 4 / zoom]);
+      traceSelection(context, outline.shape, outline.points);
+      context.strokeStyle = '#000';
+      context.lineDashOffset = 0;
+      context.stroke();
+      context.strokeStyle = '#fff';
+      context.lineDashOffset = 4 / zoom;
+      context.stroke();
+    }
+    context.restore();
+  };
+
+  const renderComposite = () => {
+    if (compositeFrame.current !== null) {
+      cancelAnimationFrame(compositeFrame.current);
+      compositeFrame.current = null;
+    }
+    paint();
+  };
+
+  // Live drawing can produce many events per frame, only composite once per frame
+  const scheduleComposite = () => {
+    if (compositeFrame.current !== null) return;
+    compositeFrame.current = requestAnimationFrame(() => {
+      compositeFrame.current = null;
+      paint();
+    });
+  };
+
+  const notifyLayers = () => {
+    const layers = layersRef.current;
+    if (!layers.some(s => s.layer.id === activeLayerId.current)) {
+      // Fall back to the topmost drawing layer
+      const top = [...layers].reverse().find(s => s.layer.kind === 'drawing') ?? layers[layers.length - 1];
+      activeLayerId.current = top?.layer.id ?? '';
+    }
+    onLayersChange?.(layers.map(s => s.layer), activeLayerId.current);
+  };
+
+  const applyOperation = (op: CanvasOperation) => {
+    const { width, height } = sizeRef.current;
+    switch (op.type) {
+      case 'stroke': {
+        const surface = getSurface(op.layerId);
+        if (!surface) break;
+        const style = { size: op.size, color: op.color, erase: op.erase };
+        const copies = [op.points, ...(op.mirrors ?? [])];
+        if (!op.brush || !drawBrushStroke(surface, copies, op.brush, style)) {
+          copies.forEach(points => drawStroke(surface.ctx, points, style));
+        }
+        break;
+      }
+      case 'image': {
+        const surface = getSurface(op.layerId);
+        if (!surface) break;
+        if (op.lift) eraseMasked(surface.ctx, op.lift);
+        drawTransformedImage(surface.ctx, op.object);
+        break;
+      }
+      case 'erase': {
+        const surface = getSurface(op.layerId);
+        if (surface) eraseMasked(surface.ctx, op.mask);
+        break;
+      }
+      case 'load': {
+        // A new base image starts over, including the mask
+        layersRef.current.forEach(clearSurface);
+        if (maskRef.current) clearSurface(maskRef.current);
+        const surface = getSurface(op.layerId);
+        if (!surface) return;
+        // Keep aspect ratio and center
+        const scale = Math.min(width / op.image.width, height / op.image.height);
+        const x = (width / 2) - (op.image.width / 2) * scale;
+        const y = (height / 2) - (op.image.height / 2) * scale;
+        surface.ctx.drawImage(op.image, x, y, op.image.width * scale, op.image.height * scale);
+        break;
+      }
+      case 'clear':
+        layersRef.current.forEach(clearSurface);
+        if (maskRef.current) clearSurface(maskRef.current);
+        break;
+      case 'addLayer': {
+        const surface = getOrCreateSurface(op.layer);
+        surface.layer = { ...op.layer };
+        clearSurface(surface);
+        const layers = [...layersRef.current];
+        layers.splice(op.index, 0, surface);
+        layersRef.current = layers;
+        break;
+      }
+      case 'removeLayer':
+        layersRef.current = layersRef.current.filter(s => s.layer.id !== op.layerId);
+        break;
+      case 'moveLayer': {
+        const surface = getSurface(op.layerId);
+        if (!surface) return;
+        const layers = layersRef.current.filter(s => s !== surface);
+        layers.splice(op.index, 0, surface);
+        layersRef.current = layers;
+        break;
+      }
+      case 'shape': {
+        const surface = getSurface(op.layerId);
+        if (surface) drawShape(surface.ctx, op.shape, op.from, op.to, op);
+        break;
+      }
+      case 'fill': {
+        const surface = getSurface(op.layerId);
+        if (surface) paintRegion(surface.ctx, op.region, op.color);
+        break;
+      }
+      case 'text': {
+        const surface = getSurface(op.layerId);
+        if (surface) drawLabel(surface.ctx, op.text, op, op.fontSize, op.color);
+        break;
+      }
+      case 'mask':
+        if (maskRef.current) drawMaskShape(maskRef.current.ctx, op);
+        break;
+      case 'clearMask':
+        if (maskRef.current) clearSurface(maskRef.current);
+        break;
+    }
+  };
+
+  // Resizes the visible canvas and every surface. Content is fitted into the new size,
+  // keeping its aspect ratio; pass null sources to start blank.
+  const resizeSurfaces = (size: DocumentSize, sources: { layer: Layer; source: CanvasImageSource | null }[], maskSource: CanvasImageSource | null) => {
+    const canvas = canvasRef.current!;
+    const prev = sizeRef.current;
+    canvas.width = size.width;
+    canvas.height = size.height;
+    sizeRef.current = size;
+
+    const fitScale = prev.width > 0 ? Math.min(size.width / prev.width, size.height / prev.height) : 1;
+    const fitW = prev.width * fitScale;
+    const fitH = prev.height * fitScale;
+    const drawFitted = (surface: Surface, source: CanvasImageSource | null) => {
+      if (source) surface.ctx.drawImage(source, (size.width - fitW) / 2, (size.height - fitH) / 2, fitW, fitH);
+    };
+
+    surfacePool.current = new Map();
+    layersRef.current = sources.map(({ layer, source }) => {
+      const surface = getOrCreateSurface(layer);
+      drawFitted(surface, source);
+      return surface;
+    });
+    maskRef.current = createSurface(size.width, size.height);
+    drawFitted(maskRef.current, maskSource);
+    onDocumentSizeChange?.(size);
+  };
 
   // Initialize canvas
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Handle high DPI displays
-    const dpr = window.devicePixelRatio || 1;
-    const rect = canvas.getBoundingClientRect();
-    
-    // Only set dimensions if they haven't been set or if window resized (simplified here)
-    if (canvas.width !== rect.width * dpr) {
-        canvas.width = rect.width * dpr;
-        canvas.height = rect.height * dpr;
-        ctx.scale(dpr, dpr);
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        
-        // Fill white background initially
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(0, 0, rect.width, rect.height);
-    }
+    // Start with a reference layer for photos and one layer to draw on
+    const background = createLayer('background', 'Reference');
+    const drawing = createLayer('drawing', 'Layer 1');
+    sizeRef.current = { width: 0, height: 0 };
+    resizeSurfaces(clampDocumentSize(defaultDocumentSize), [
+      { layer: background, source: null },
+      { layer: drawing, source: null },
+    ], null);
+    activeLayerId.current = drawing.id;
 
     setContext(ctx);
   }, []);
 
-  // Update context properties when props change
+  // Keep the document fitted while the layout changes, until the user zooms or pans themselves
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    fitToScreen();
+    const observer = new ResizeObserver(() => {
+      if (autoFit.current) fitToScreen();
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Ctrl/Cmd+wheel (and trackpad pinch) zooms around the cursor, plain wheel pans.
+  // Attached manually because React's wheel listener is passive and can't preventDefault.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const current = viewRef.current;
+      if (event.ctrlKey || event.metaKey) {
+        const delta = Math.max(-50, Math.min(50, event.deltaY));
+        zoomAt(current.zoom * Math.exp(-delta * 0.01), event.clientX, event.clientY);
+      } else {
+        autoFit.current = false;
+        setView({ ...current, x: current.x - event.deltaX, y: current.y - event.deltaY });
+      }
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const selectAll = () => {
+    const { width, height } = sizeRef.current;
+    commitFloating();
+    setSelection(createSelection('rect', [{ x: 0, y: 0 }, { x: width, y: height }], width, height));
+  };
+
+  // Window listeners are registered once, so they call through this to see the latest props/state
+  const windowHandlers = useRef({ keyDown: (_event: KeyboardEvent) => {}, paste: (_image: Blob | null) => {} });
+  windowHandlers.current.paste = (image) => void pasteBlob(image);
+  windowHandlers.current.keyDown = (event) => {
+    const float = floatingRef.current;
+    const mod = event.ctrlKey || event.metaKey;
+    const key = event.key.toLowerCase();
+
+    if (key === 'enter' && float) {
+      commitFloating();
+    } else if (key === 'escape' && (float || selectionRef.current)) {
+      if (float) cancelFloating();
+      else setSelection(null);
+    } else if ((key === 'delete' || key === 'backspace') && float) {
+      // Deleting a lifted selection leaves the hole behind
+      setFloating(null);
+      if (float.lift) commit({ type: 'erase', layerId: float.layerId, mask: float.lift });
+      else renderComposite();
+    } else if ((key === 'delete' || key === 'backspace') && selectionRef.current) {
+      deleteSelection();
+    } else if (mod && key === 'a') {
+      selectAll();
+    } else if (mod && key === 'c' && selectionRef.current) {
+      copySelection();
+    } else if (mod && key === 'x' && selectionRef.current) {
+      cutSelection();
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  // Selection/transform shortcuts and pasting images from the system clipboard
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isTextInput(event.target)) windowHandlers.current.keyDown(event);
+    };
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isTextInput(event.target)) return;
+      const file = [...(event.clipboardData?.files ?? [])].find(f => f.type.startsWith('image/')) ?? null;
+      event.preventDefault();
+      windowHandlers.current.paste(file);
+    };
+    const handleBlur = () => {
+      if (clipboard.current) clipboard.current.fresh = false;
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('paste', handlePaste);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('paste', handlePaste);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Holding Space turns the pointer into a pan tool
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || isTextInput(event.target)) return;
+      event.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === 'Space') setSpaceHeld(false);
+    };
+    const handleBlur = () => setSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // History needs the context-bound helpers, so set it up once the context exists
   useEffect(() => {
     if (!context) return;
-    context.strokeStyle = tool === 'eraser' ? '#ffffff' : color;
-    context.lineWidth = brushSize;
-  }, [context, color, brushSize, tool]);
+
+    const history = new OperationHistory<CanvasOperation, CanvasSnapshot>({
+      capture: () => ({
+        layers: layersRef.current.map(s => ({ ...s.layer })),
+        pixels: new Map(layersRef.current.map(s => [s.layer.id, s.ctx.getImageData(0, 0, s.canvas.width, s.canvas.height)])),
+        mask: maskRef.current!.ctx.getImageData(0, 0, maskRef.current!.canvas.width, maskRef.current!.canvas.height),
+      }),
+      restore: (snapshot) => {
+        // Undo restores content and structure, but display settings of layers that
+        // still exist (visibility, opacity, lock) are left as the user has them now.
+        layersRef.current = snapshot.layers.map(layer => {
+          const current = getSurface(layer.id);
+          const surface = getOrCreateSurface(layer);
+          surface.layer = current ? current.layer : { ...layer };
+          surface.ctx.putImageData(snapshot.pixels.get(layer.id)!, 0, 0);
+          return surface;
+        });
+        maskRef.current?.ctx.putImageData(snapshot.mask, 0, 0);
+      },
+      apply: applyOperation,
+    }, { maxOperations: 100, checkpointInterval: 20 });
+    history.reset();
+    historyRef.current = history;
+
+    renderComposite();
+    notifyLayers();
+  }, [context]);
+
+  // Apply an operation to the canvas and record it in the history
+  const commit = (op: CanvasOperation) => {
+    if (!context) return;
+    // Anything else that changes the canvas places a pending transform first
+    if (op.type !== 'image' && floatingRef.current) commitFloating();
+    applyOperation(op);
+    historyRef.current?.push(op);
+    renderComposite();
+    if (op.type === 'addLayer' || op.type === 'removeLayer' || op.type === 'moveLayer') notifyLayers();
+    onCanvasChange();
+  };
+
+  const afterHistoryChange = () => {
+    renderComposite();
+    notifyLayers();
+    onCanvasChange();
+  };
+
+  const setFloating = (next: typeof floating) => {
+    floatingRef.current = next;
+    setFloatingState(next);
+    if (!next) setCropping(false);
+  };
+
+  const setSelection = (next: Selection | null) => {
+    const changed = (selectionRef.current === null) !== (next === null);
+    selectionRef.current = next;
+    if (changed) onSelectionChange?.(next !== null);
+    scheduleComposite();
+  };
+
+  const commitFloating = () => {
+    const float = floatingRef.current;
+    if (!float) return;
+    setFloating(null);
+    floatDrag.current = null;
+    const { object, layerId, lift } = float;
+    commit(lift ? { type: 'image', layerId, object, lift } : { type: 'image', layerId, object });
+  };
+
+  const cancelFloating = () => {
+    const float = floatingRef.current;
+    if (!float) return;
+    setFloating(null);
+    floatDrag.current = null;
+    // Lifted pixels were only removed from the live layer; rebuild it from history
+    if (float.lift) historyRef.current?.revert();
+    renderComposite();
+  };
+
+  // Drops straight from the canvas' world: loading, resizing etc. replace everything anyway
+  const discardTransientState = () => {
+    floatingRef.current = null;
+    setFloatingState(null);
+    setCropping(false);
+    floatDrag.current = null;
+    selectionDraft.current = null;
+    setSelection(null);
+  };
+
+  // Centre of what's on screen, in document coordinates
+  const viewCenter = (): Point => {
+    const container = containerRef.current;
+    const { x, y, zoom } = viewRef.current;
+    if (!container) return { x: sizeRef.current.width / 2, y: sizeRef.current.height / 2 };
+    return { x: (container.clientWidth / 2 - x) / zoom, y: (container.clientHeight / 2 - y) / zoom };
+  };
+
+  /** Starts transforming an image that isn't on any layer yet. */
+  const floatImage = (source: ImageSource, layerId: string, center: Point) => {
+    commitFloating();
+    setSelection(null);
+    const { width, height } = sizeRef.current;
+    // Images larger than the document come in at half its size so the handles are reachable
+    const limit = source.width > width || source.height > height ? 0.5 : 1;
+    setFloating({ object: placeImage(source, center, width * limit, height * limit), layerId, lift: null });
+    renderComposite();
+  };
+
+  // Selection actions work on the active layer
+  const getSelectedPixels = () => {
+    const selection = selectionRef.current;
+    const surface = getSurface(activeLayerId.current);
+    if (!selection || !surface) return null;
+    return { selection, surface, image: extractSelection(surface.canvas, selection) };
+  };
+
+  /** Cuts the selection out of the active layer and turns it into a floating image. */
+  const liftSelection = () => {
+    const selection = selectionRef.current;
+    const surface = getDrawableLayer();
+    if (!selection || !surface || floatingRef.current) return false;
+    const image = extractSelection(surface.canvas, selection);
+    eraseMasked(surface.ctx, selection.mask);
+    const { x, y, width, height } = selection.bounds;
+    setSelection(null);
+    setFloating({
+      object: placeImage(image, { x: x + width / 2, y: y + height / 2 }, width, height),
+      layerId: surface.layer.id,
+      lift: selection.mask,
+    });
+    renderComposite();
+    return true;
+  };
+
+  const copySelection = () => {
+    const selected = getSelectedPixels();
+    if (!selected) return false;
+    clipboard.current = { image: selected.image, bounds: selected.selection.bounds, fresh: true };
+    // Best effort: also offer the pixels to other apps. A refused write is ignored, the copy above still works
+    selected.image.toBlob((blob) => {
+      if (!blob || !navigator.clipboard?.write || typeof ClipboardItem === 'undefined') return;
+      navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })]).catch(() => {});
+    }, 'image/png');
+    return true;
+  };
+
+  const deleteSelection = () => {
+    const selection = selectionRef.current;
+    const surface = getDrawableLayer();
+    if (!selection || !surface) return false;
+    commit({ type: 'erase', layerId: surface.layer.id, mask: selection.mask });
+    return true;
+  };
+
+  const cutSelection = () => {
+    if (!getDrawableLayer() || !copySelection()) return false;
+    deleteSelection();
+    setSelection(null);
+    return true;
+  };
+
+  const pasteInternal = () => {
+    const clip = clipboard.current;
+    const surface = getDrawableLayer();
+    if (!clip || !surface) return false;
+    const { x, y, width, height } = clip.bounds;
+    // Pasting back into the same document puts it where it was copied from
+    floatImage(clip.image, surface.layer.id, { x: x + width / 2, y: y + height / 2 });
+    return true;
+  };
+
+  // Our own copy wins while it's the most recent thing copied; otherwise the system clipboard image
+  const pasteBlob = async (blob: Blob | null) => {
+    if ((clipboard.current?.fresh || !blob) && pasteInternal()) return;
+    const surface = getDrawableLayer();
+    if (!blob || !surface) return;
+    try {
+      floatImage(await decodeImageFile(blob), surface.layer.id, viewCenter());
+    } catch (err: any) {
+      onError?.(err.message);
+    }
+  };
+
+  const readSystemClipboardImage = async (): Promise<Blob | null> => {
+    try {
+      for (const item of await navigator.clipboard.read()) {
+        const type = item.types.find(t => t.startsWith('image/'));
+        if (type) return await item.getType(type);
+      }
+    } catch {
+      // Permission denied or unsupported; the internal clipboard still works
+    }
+    return null;
+  };
 
   // Expose methods to parent
   useImperativeHandle(ref, () => ({
     clear: () => {
-      if (!context || !canvasRef.current) return;
-      const canvas = canvasRef.current;
-      context.fillStyle = '#ffffff';
-      context.fillRect(0, 0, canvas.width / (window.devicePixelRatio || 1), canvas.height / (window.devicePixelRatio || 1));
+      cancelFloating();
+      setSelection(null);
+      commit({ type: 'clear' });
+    },
+    getDataURL: (options?: ExportOptions) => {
+      if (!canvasRef.current) return '';
+      // Exporting means the user is done positioning
+      commitFloating();
+      // Flatten onto a scratch canvas so the on-screen view is untouched
+      const ids = options?.layerIds;
+      return flatten(ids ? (layer) => ids.includes(layer.id) : undefined).canvas.toDataURL('image/png');
+    },
+    loadDataURL: async (url: string) => {
+      const image = await loadImage(url);
+      const background = getBackgroundSurface();
+      if (!background) return;
+      cancelFloating();
+      setSelection(null);
+      commit({ type: 'load', layerId: background.layer.id, image });
+    },
+    placeImage: async (url: string, at?: Point) => {
+      const image = await loadImage(url);
+      placeDroppedImage(image, at ?? viewCenter());
+    },
+    undo: () => {
+      if (isDrawing) return;
+      // A pending transform is the most recent thing, so it's what gets undone
+      if (floatingRef.current) {
+        cancelFloating();
+        return;
+      }
+      if (historyRef.current?.undo()) afterHistoryChange();
+    },
+    redo: () => {
+      if (isDrawing || floatingRef.current) return;
+      if (historyRef.current?.redo()) afterHistoryChange();
+    },
+    canUndo: () => historyRef.current?.canUndo() ?? false,
+    canRedo: () => historyRef.current?.canRedo() ?? false,
+    resetHistory: () => {
+      historyRef.current?.reset();
       onCanvasChange();
     },
-    getDataURL: () => {
-      return canvasRef.current?.toDataURL('image/png') || '';
-    },
-    loadDataURL: (url: string) => {
-        const img = new Image();
-        img.onload = () => {
-             if (!context || !canvasRef.current) return;
-             const canvas = canvasRef.current;
-             // Clear before loading? Or draw over? Let's clear.
-             context.fillStyle = '#ffffff';
-             context.fillRect(0, 0, canvas.width / (window.devicePixelRatio || 1), canvas.height / (window.devicePixelRatio || 1));
-             
-             // Draw image centered and contained
-             const dpr = window.devicePixelRatio || 1;
-             const w = canvas.width / dpr;
-             const h = canvas.height / dpr;
-             
-             // Simple draw for now, stretch to fit if needed or center
-             // Let's keep aspect ratio and center
-             const scale = Math.min(w / img.width, h / img.height);
-             const x = (w / 2) - (img.width / 2) * scale;
-             const y = (h / 2) - (img.height / 2) * scale;
-             
-             context.drawImage(img, x, y, img.width * scale, img.height * scale);
-             onCanvasChange();
-        };
-        img.src = url;
-    }
+    addLayer: () => {
+      const count = layersRef.current.filter(s => s.layer.kind === 'drawing').length;
+      const layer = createLayer('drawing', `Layer ${count + 1}`);
+      // New layers go right above the active one
+      const activeIndex = layersRef.current.findIndex(s => s.layer.id === activeLayerId.current);
+      activeLayerId.current = layer.id;
+      commit({ type: 'addLayer', layer, index: activeIndex + 1 });
+    },
+    removeLayer: (id: string) => {
+      const surface = getSurface(id);
+      if (!surface || surface.layer.kind === 'background') return;
+      // Always keep at least one layer to draw on
+      if (layersRef.current.filter(s => s.layer.kind === 'drawing').length <= 1) return;
+      commit({ type: 'removeLayer', layerId: id });
+    },
+    moveLayer: (id: string, direction: 'up' | 'down') => {
+      const index = layersRef.current.findIndex(s => s.layer.id === id);
+      if (index < 0 || layersRef.current[index].layer.kind === 'background') return;
+      const target = direction === 'up' ? index + 1 : index - 1;
+      // The background layer stays at the bottom
+      if (target >= layersRef.current.length || layersRef.current[target]?.layer.kind !== 'drawing') return;
+      commit({ type: 'moveLayer', layerId: id, index: target });
+    },
+    updateLayer: (id, patch) => {
+      const surface = getSurface(id);
+      if (!surface) return;
+      surface.layer = { ...surface.layer, ...patch };
+      renderComposite();
+      notifyLayers();
+    },
+    setActiveLayer: (id: string) => {
+      if (!getSurface(id)) return;
+      activeLayerId.current = id;
+      notifyLayers();
+    },
+    getMaskDataURL: () => {
+      const mask = maskRef.current;
+      if (!mask || isCanvasEmpty(mask.canvas)) return null;
+      return maskToDataURL(mask.canvas);
+    },
+    clearMask: () => {
+      commit({ type: 'clearMask' });
+    },
+    getDocument: () => {
+      const canvas = canvasRef.current!;
+      const mask = maskRef.current;
+      return {
+        width: canvas.width,
+        height: canvas.height,
+        layers: layersRef.current.map(s => ({ ...s.layer, image: s.canvas.toDataURL('image/png') })),
+        activeLayerId: activeLayerId.current,
+        mask: mask && !isCanvasEmpty(mask.canvas) ? mask.canvas.toDataURL('image/png') : null,
+      };
+    },
+    loadDocument: async (doc: CanvasDocument) => {
+      if (!canvasRef.current) return;
+      const [images, maskImage] = await Promise.all([
+        Promise.all(doc.layers.map(l => loadImage(l.image))),
+        doc.mask ? loadImage(doc.mask) : Promise.resolve(null),
+      ]);
+      discardTransientState();
+
+      // The document brings its own resolution; oversized ones are fitted into the limits
+      sizeRef.current = { width: doc.width, height: doc.height };
+      resizeSurfaces(
+        clampDocumentSize(doc),
+        doc.layers.map(({ image: _image, ...layer }, i) => ({ layer, source: images[i] })),
+        maskImage
+      );
+      activeLayerId.current = doc.activeLayerId;
+
+      historyRef.current?.reset();
+      fitToScreen();
+      renderComposite();
+      notifyLayers();
+      onCanvasChange();
+    },
+    getDocumentSize: () => ({ ...sizeRef.current }),
+    setDocumentSize: (size: DocumentSize) => {
+      const next = clampDocumentSize(size);
+      const { width, height } = sizeRef.current;
+      if (isDrawing || (next.width === width && next.height === height)) return;
+      cancelFloating();
+      setSelection(null);
+      // Old surfaces are still intact at this point, so they can be drawn straight into the new ones
+      resizeSurfaces(
+        next,
+        layersRef.current.map(({ layer, canvas }) => ({ layer, source: canvas })),
+        maskRef.current?.canvas ?? null
+      );
+      historyRef.current?.reset();
+      fitToScreen();
+      renderComposite();
+      notifyLayers();
+      onCanvasChange();
+    },
+    zoomIn: () => zoomAt(viewRef.current.zoom * ZOOM_STEP),
+    zoomOut: () => zoomAt(viewRef.current.zoom / ZOOM_STEP),
+    fitToScreen,
+    hasSelection: () => selectionRef.current !== null,
+    selectAll,
+    deselect: () => setSelection(null),
+    copySelection,
+    cutSelection,
+    deleteSelection,
+    transformSelection: liftSelection,
+    paste: async () => {
+      if (clipboard.current?.fresh && pasteInternal()) return;
+      await pasteBlob(await readSystemClipboardImage());
+    },
   }));
 
-  const getCoordinates = (event: React.MouseEvent | React.TouchEvent) => {
+  // Maps client coordinates to logical canvas coordinates. The bounding rect already
+  // includes the pan/zoom transform, so this stays correct at any zoom level.
+  const getCoordinates = (clientX: number, clientY: number) => {
     if (!canvasRef.current) return { x: 0, y: 0 };
     const rect = canvasRef.current.getBoundingClientRect();
-    let clientX, clientY;
+    const { width, height } = sizeRef.current;
+    return {
+      x: (clientX - rect.left) * (width / rect.width),
+      y: (clientY - rect.top) * (height / rect.height),
+    };
+  };
+
+  const toStrokePoint = (event: PointerEvent): StrokePoint => ({
+    ...getCoordinates(event.clientX, event.clientY),
+    // Only pens report meaningful pressure; mice report 0.5 while pressed
+    pressure: event.pointerType === 'pen' ? event.pressure : 1,
+  });
+
+  // Strokes go to the active layer, as long as it can be seen and isn't locked
+  const getDrawableLayer = () => {
+    const surface = getSurface(activeLayerId.current);
+    if (!surface || surface.layer.locked || !surface.layer.visible) return null;
+    return surface;
+  };
 
-    if ('touches' in event) {
-      clientX = event.touches[0].clientX;
-      clientY = event.touches[0].clientY;
+  const isBrushStroke = () => tool !== 'mask' || maskMode === 'brush';
+
+  const beginStroke = (event: PointerEvent, erase: boolean) => {
+    if (tool === 'mask') {
+      if (!maskRef.current) return false;
+      strokeTarget.current = maskRef.current;
+      strokeStyle.current = { size: brushSize, color: MASK_COLOR, erase };
+      if (maskMode !== 'brush') {
+        shapePreview.current = { shape: maskMode, points: [], erase };
+      }
     } else {
-      clientX = (event as React.MouseEvent).clientX;
-      clientY = (event as React.MouseEvent).clientY;
+      const surface = getDrawableLayer();
+      if (!surface) return false;
+      strokeTarget.current = surface;
+      strokeStyle.current = { size: brushSize, color, erase: tool === 'eraser' };
+      brushStroke.current = brush ? beginBrushStroke(surface, brush, strokeStyle.current, true) : null;
+      if (guides) {
+        mirrorStrokes.current = symmetryTransforms(guides, sizeRef.current).map(transform => ({ transform, points: [] }));
+        if (guides.snap && guides.perspective !== 'off') {
+          snapping.current = { origin: getCoordinates(event.clientX, event.clientY), direction: null, pending: [] };
+        }
+      }
     }
 
-    return {
-      x: clientX - rect.left,
-      y: clientY - rect.top,
+    setIsDrawing(true);
+    drawingPointer.current = event.pointerId;
+    // Shapes follow the pointer exactly, only freehand strokes are stabilized
+    stabilizer.current = isBrushStroke() ? new Stabilizer(smoothing) : null;
+    currentStroke.current = [];
+    addStrokePoint(toStrokePoint(event));
+    return true;
+  };
+
+  const addStrokePoint = (raw: StrokePoint) => {
+    const snap = snapping.current;
+    if (!snap) {
+      pushStrokePoint(raw);
+      return;
+    }
+    if (snap.direction) {
+      pushStrokePoint(projectOntoLine(raw, snap.origin, snap.direction));
+      return;
+    }
+    // Wait until the movement shows which guide the stroke follows, then replay what was held back
+    snap.pending.push(raw);
+    const movement = { x: raw.x - snap.origin.x, y: raw.y - snap.origin.y };
+    if (Math.hypot(movement.x, movement.y) < SNAP_LOCK_DISTANCE) return;
+    snap.direction = guides ? closestDirection(snapDirections(guides, sizeRef.current, snap.origin), movement) : null;
+    if (!snap.direction) snapping.current = null;
+    snap.pending.forEach(p => pushStrokePoint(snap.direction ? projectOntoLine(p, snap.origin, snap.direction) : p));
+    snap.pending = [];
+  };
+
+  // Held-back points of a snapped stroke that never moved far enough go in as drawn
+  const flushSnapping = () => {
+    const pending = snapping.current?.pending ?? [];
+    snapping.current = null;
+    pending.forEach(pushStrokePoint);
+  };
+
+  const pushStrokePoint = (raw: StrokePoint) => {
+    const point = stabilizer.current ? stabilizer.current.push(raw) : raw;
+    const points = currentStroke.current;
+    points.push(point);
+
+    if (shapePreview.current) {
+      shapePreview.current.points = points;
+    } else if (brushStroke.current && strokeTarget.current) {
+      drawBrushSegment(brushStroke.current, 0, points, points.length - 1);
+      mirrorStrokes.current.forEach((mirror, i) => {
+        mirror.points.push(mirror.transform(point));
+        drawBrushSegment(brushStroke.current!, i + 1, mirror.points, mirror.points.length - 1);
+      });
+      presentBrushStroke(brushStroke.current, strokeTarget.current.ctx);
+    } else if (strokeTarget.current && strokeStyle.current) {
+      drawStrokeSegment(strokeTarget.current.ctx, points, points.length - 1, strokeStyle.current);
+      for (const mirror of mirrorStrokes.current) {
+        mirror.points.push(mirror.transform(point));
+        drawStrokeSegment(strokeTarget.current.ctx, mirror.points, mirror.points.length - 1, strokeStyle.current);
+      }
+    }
+  };
+
+  const resetStroke = () => {
+    setIsDrawing(false);
+    drawingPointer.current = null;
+    strokeTarget.current = null;
+    strokeStyle.current = null;
+    stabilizer.current = null;
+    mirrorStrokes.current = [];
+    brushStroke.current = null;
+    snapping.current = null;
+    shapePreview.current = null;
+    shapeDraft.current = null;
+    selectionDraft.current = null;
+    currentStroke.current = [];
+  };
+
+  const beginSelection = (event: React.PointerEvent, point: Point) => {
+    const selection = selectionRef.current;
+    // Dragging inside the selection picks its pixels up
+    if (selection && selectionContains(selection, point) && liftSelection()) {
+      beginFloatDrag(event, 'move');
+      return;
+    }
+    setSelection(null);
+    selectionDraft.current = { shape: selectMode, points: [point] };
+    drawingPointer.current = event.pointerId;
+    setIsDrawing(true);
+  };
+
+  const updateSelection = (event: React.PointerEvent) => {
+    const draft = selectionDraft.current;
+    if (!draft) return;
+    const point = getCoordinates(event.clientX, event.clientY);
+    // Rectangles only need their two corners
+    draft.points = draft.shape === 'rect' ? [draft.points[0], point] : [...draft.points, point];
+    scheduleComposite();
+  };
+
+  const endSelection = () => {
+    const draft = selectionDraft.current;
+    resetStroke();
+    if (!draft) return;
+    const { width, height } = sizeRef.current;
+    // A plain click just deselects
+    setSelection(createSelection(draft.shape, draft.points, width, height));
+  };
+
+  const beginFloatDrag = (event: React.PointerEvent, mode: TransformMode, handle?: Handle) => {
+    const float = floatingRef.current;
+    if (!float) return;
+    floatDrag.current = {
+      pointerId: event.pointerId,
+      mode,
+      handle,
+      from: getCoordinates(event.clientX, event.clientY),
+      start: float.object,
     };
   };
 
-  const startDrawing = (event: React.MouseEvent | React.TouchEvent) => {
-    event.preventDefault(); // Prevent scrolling on touch
+  const handleTransformPointerDown = (event: React.PointerEvent, mode: TransformMode, handle?: Handle) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    beginFloatDrag(event, mode, handle);
+  };
+
+  const handleGuidePointerDown = (event: React.PointerEvent, handle: GuideHandle) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    guideDrag.current = { pointerId: event.pointerId, handle };
+  };
+
+  const updateGuideDrag = (event: React.PointerEvent) => {
+    const drag = guideDrag.current;
+    const { width, height } = sizeRef.current;
+    if (!drag || !guides || !width || !height) return;
+    const point = getCoordinates(event.clientX, event.clientY);
+    if (drag.handle === 'center') {
+      const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+      onGuidesChange?.({ ...guides, center: { x: clamp01(point.x / width), y: clamp01(point.y / height) } });
+      return;
+    }
+    // Vanishing points are often well outside the picture
+    const clampFar = (v: number) => Math.min(3, Math.max(-2, v));
+    const vanishingPoints: GuideSettings['vanishingPoints'] = [...guides.vanishingPoints];
+    vanishingPoints[drag.handle] = { x: clampFar(point.x / width), y: clampFar(point.y / height) };
+    onGuidesChange?.({ ...guides, vanishingPoints });
+  };
+
+  const updateFloatDrag = (event: React.PointerEvent) => {
+    const drag = floatDrag.current;
+    const float = floatingRef.current;
+    if (!drag || !float) return;
+    const point = getCoordinates(event.clientX, event.clientY);
+    const { start, from, handle } = drag;
+    let object = start;
+    if (drag.mode === 'move') object = moveBy(start, point.x - from.x, point.y - from.y);
+    // Shift: free aspect ratio for corners, 15° steps for rotation
+    else if (drag.mode === 'resize' && handle) object = resizeTo(start, handle, point, event.shiftKey);
+    else if (drag.mode === 'crop' && handle) object = cropTo(start, handle, point);
+    else if (drag.mode === 'rotate') object = rotateTo(start, from, point, event.shiftKey);
+    setFloating({ ...float, object });
+    scheduleComposite();
+  };
+
+  const beginShape = (event: React.PointerEvent, shape: ShapeKind) => {
+    if (!getDrawableLayer()) return;
+    const { x, y } = getCoordinates(event.clientX, event.clientY);
+    shapeDraft.current = { pointerId: event.pointerId, shape, from: { x, y }, to: { x, y }, color, size: brushSize };
+    drawingPointer.current = event.pointerId;
     setIsDrawing(true);
-    const { x, y } = getCoordinates(event);
-    lastPos.current = { x, y };
-    
-    // Draw a single dot
-    if (context) {
-        context.beginPath();
-        context.arc(x, y, brushSize / 2, 0, Math.PI * 2);
-        context.fillStyle = tool === 'eraser' ? '#ffffff' : color;
-        context.fill();
-        context.beginPath(); // Reset path for strokes
-        context.moveTo(x, y);
+  };
+
+  const updateShape = (event: React.PointerEvent) => {
+    const draft = shapeDraft.current;
+    if (!draft) return;
+    const to = getCoordinates(event.clientX, event.clientY);
+    // Hold Shift for 45° lines, squares and circles
+    draft.to = event.shiftKey ? constrainShape(draft.shape, draft.from, to) : to;
+    scheduleComposite();
+  };
+
+  const endShape = () => {
+    const draft = shapeDraft.current;
+    const surface = getDrawableLayer();
+    resetStroke();
+    // A click without a drag draws nothing
+    if (!draft || !surface || Math.hypot(draft.to.x - draft.from.x, draft.to.y - draft.from.y) < 1) {
+      renderComposite();
+      return;
+    }
+    const { shape, from, to, color: shapeColor, size } = draft;
+    commit({ type: 'shape', layerId: surface.layer.id, shape, from, to, color: shapeColor, size });
+  };
+
+  const fillAt = ({ x, y }: Point) => {
+    const surface = getDrawableLayer();
+    if (!surface) return;
+    const { width, height } = sizeRef.current;
+    if (x < 0 || y < 0 || x >= width || y >= height) return;
+    // Borders come from everything visible, so outlines on other layers still contain the fill
+    const region = findFillRegion(flatten().ctx.getImageData(0, 0, width, height), x, y, Math.round(fillTolerance * 255));
+    if (region) commit({ type: 'fill', layerId: surface.layer.id, region, color });
+  };
+
+  const pickColorAt = ({ x, y }: Point) => {
+    const { width, height } = sizeRef.current;
+    if (x < 0 || y < 0 || x >= width || y >= height) return;
+    const [r, g, b] = flatten().ctx.getImageData(Math.floor(x), Math.floor(y), 1, 1).data;
+    onColorPick?.(`#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`);
+  };
+
+  // Mirrors textDraft so a blur right after Enter can't commit the same label twice
+  const textDraftRef = useRef<{ x: number; y: number; value: string } | null>(null);
+
+  const updateTextDraft = (draft: { x: number; y: number; value: string } | null) => {
+    textDraftRef.current = draft;
+    setTextDraft(draft);
+  };
+
+  const commitText = () => {
+    const draft = textDraftRef.current;
+    updateTextDraft(null);
+    const surface = getDrawableLayer();
+    if (!draft || !surface || !draft.value.trim()) return;
+    commit({
+      type: 'text',
+      layerId: surface.layer.id,
+      x: draft.x,
+      y: draft.y,
+      text: draft.value,
+      color,
+      fontSize: labelFontSize(brushSize),
+    });
+  };
+
+  const endStroke = () => {
+    flushSnapping();
+    const points = currentStroke.current;
+    const mirrors = mirrorStrokes.current.map(m => m.points);
+    const style = strokeStyle.current;
+    const target = strokeTarget.current;
+    const brush = isBrushStroke();
+    const buffered = brushStroke.current;
+    resetStroke();
+    if (!style || !target || points.length === 0) return;
+
+    if (tool === 'mask') {
+      const op: MaskOperation = { type: 'mask', shape: maskMode, points, size: style.size, erase: style.erase };
+      // Brush strokes are already painted; shapes are only filled once the drag ends
+      if (brush) {
+        drawStrokeSegment(target.ctx, points, points.length, style);
+        historyRef.current?.push(op);
+        renderComposite();
+        onCanvasChange();
+      } else {
+        commit(op);
+      }
+      return;
+    }
+
+    // Finish the tails; the rest of the stroke is already on the layer, just record it
+    if (buffered) {
+      [points, ...mirrors].forEach((stroke, i) => drawBrushSegment(buffered, i, stroke, stroke.length));
+      presentBrushStroke(buffered, target.ctx);
+    } else {
+      [points, ...mirrors].forEach(stroke => drawStrokeSegment(target.ctx, stroke, stroke.length, style));
     }
+    const layerId = getSurface(activeLayerId.current)?.layer.id;
+    if (layerId) {
+      historyRef.current?.push({
+        type: 'stroke',
+        layerId,
+        points,
+        ...(mirrors.length > 0 ? { mirrors } : {}),
+        color: style.color,
+        size: style.size,
+        erase: style.erase,
+        ...(buffered ? { brush: buffered.settings } : {}),
+      });
+    }
+    renderComposite();
     onCanvasChange();
   };
 
-  const draw = (event: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing || !context || !lastPos.current) return;
+  // Abandons the live stroke and restores the pixels underneath it
+  const cancelStroke = () => {
+    if (drawingPointer.current === null) return;
+    resetStroke();
+    historyRef.current?.revert();
+    renderComposite();
+  };
+
+  const touchPointers = (): TrackedPointer[] => [...pointers.current.values()].filter(p => p.type === 'touch');
+
+  const startGesture = () => {
+    const [a, b] = touchPointers();
+    if (!a || !b) return;
+    gesture.current = {
+      distance: Math.hypot(a.x - b.x, a.y - b.y) || 1,
+      midX: (a.x + b.x) / 2,
+      midY: (a.y + b.y) / 2,
+      view: viewRef.current,
+    };
+    autoFit.current = false;
+  };
+
+  const updateGesture = () => {
+    const start = gesture.current;
+    const container = containerRef.current;
+    const [a, b] = touchPointers();
+    if (!start || !container || !a || !b) return;
+
+    const rect = container.getBoundingClientRect();
+    const distance = Math.hypot(a.x - b.x, a.y - b.y);
+    const midX = (a.x + b.x) / 2;
+    const midY = (a.y + b.y) / 2;
+    const zoom = clampZoom(start.view.zoom * (distance / start.distance));
+
+    // Keep the content point that was under the fingers' midpoint under it
+    const contentX = (start.midX - rect.left - start.view.x) / start.view.zoom;
+    const contentY = (start.midY - rect.top - start.view.y) / start.view.zoom;
+    setView({
+      zoom,
+      x: midX - rect.left - contentX * zoom,
+      y: midY - rect.top - contentY * zoom,
+    });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault(); // Prevent scrolling on touch
+    const { pointerType, pointerId } = event;
+
+    // Middle button or Space+drag pans the view instead of drawing
+    if (pointerType !== 'touch' && (event.button === 1 || (spaceHeld && event.button === 0))) {
+      if (pan.current || drawingPointer.current !== null) return;
+      event.currentTarget.setPointerCapture(pointerId);
+      pan.current = { pointerId, startX: event.clientX, startY: event.clientY, view: viewRef.current };
+      autoFit.current = false;
+      return;
+    }
+
+    if (pointerType === 'pen') lastPenTime.current = Date.now();
+    // Palm rejection: a hand resting on the screen while using a pen shouldn't draw
+    if (pointerType === 'touch' && Date.now() - lastPenTime.current < PALM_REJECTION_MS) return;
+
+    event.currentTarget.setPointerCapture(pointerId);
+    pointers.current.set(pointerId, { x: event.clientX, y: event.clientY, type: pointerType });
+
+    // A second finger turns the interaction into pan/zoom
+    if (pointerType === 'touch' && touchPointers().length >= 2) {
+      if (drawingPointer.current !== null && pointers.current.get(drawingPointer.current)?.type === 'touch') {
+        cancelStroke();
+      }
+      startGesture();
+      return;
+    }
+
+    if (drawingPointer.current !== null) return;
+    if (pointerType === 'mouse' && event.button !== 0) return;
+
+    // Clicking away from a label being typed finishes it
+    if (textDraftRef.current) {
+      commitText();
+      return;
+    }
+
+    const point = getCoordinates(event.clientX, event.clientY);
+    // Clicks on the floating image go to its overlay; clicking anywhere else places it
+    if (floatingRef.current) {
+      if (containsPoint(floatingRef.current.object, point)) {
+        beginFloatDrag(event, 'move');
+      } else {
+        commitFloating();
+      }
+      return;
+    }
+    if (tool === 'select') {
+      beginSelection(event, point);
+      return;
+    }
+    if (tool === 'eyedropper') {
+      pickColorAt(point);
+      return;
+    }
+    if (tool === 'fill') {
+      fillAt(point);
+      return;
+    }
+    if (tool === 'text') {
+      if (getDrawableLayer()) updateTextDraft({ ...point, value: '' });
+      return;
+    }
+    if (isShapeTool(tool)) {
+      beginShape(event, tool);
+      return;
+    }
+
+    // Hold Alt to take area away from the mask
+    if (beginStroke(event.nativeEvent, tool === 'mask' && event.altKey)) {
+      scheduleComposite();
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const { pointerType, pointerId } = event;
+
+    if (pan.current?.pointerId === pointerId) {
+      const { startX, startY, view: start } = pan.current;
+      setView({ ...start, x: start.x + event.clientX - startX, y: start.y + event.clientY - startY });
+      return;
+    }
+    if (floatDrag.current?.pointerId === pointerId) {
+      updateFloatDrag(event);
+      return;
+    }
+    if (guideDrag.current?.pointerId === pointerId) {
+      updateGuideDrag(event);
+      return;
+    }
+    if (pointerType === 'pen') lastPenTime.current = Date.now();
+
+    const tracked = pointers.current.get(pointerId);
+    if (tracked) {
+      tracked.x = event.clientX;
+      tracked.y = event.clientY;
+    }
+
+    if (gesture.current && pointerType === 'touch') {
+      updateGesture();
+      return;
+    }
+    if (drawingPointer.current !== pointerId) return;
     event.preventDefault();
 
-    const { x, y } = getCoordinates(event);
+    if (shapeDraft.current) {
+      updateShape(event);
+      return;
+    }
+    if (selectionDraft.current) {
+      updateSelection(event);
+      return;
+    }
 
-    context.beginPath();
-    context.moveTo(lastPos.current.x, lastPos.current.y);
-    context.lineTo(x, y);
-    context.stroke();
+    // Browsers batch fast pointer movement into one event per frame; use every sample
+    const native = event.nativeEvent;
+    const samples = native.getCoalescedEvents?.() ?? [];
+    (samples.length > 0 ? samples : [native]).forEach(sample => addStrokePoint(toStrokePoint(sample)));
+    scheduleComposite();
+  };
 
-    lastPos.current = { x, y };
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const { pointerId } = event;
+    if (pan.current?.pointerId === pointerId) {
+      pan.current = null;
+      return;
+    }
+    pointers.current.delete(pointerId);
+    if (floatDrag.current?.pointerId === pointerId) {
+      floatDrag.current = null;
+      return;
+    }
+    if (guideDrag.current?.pointerId === pointerId) {
+      guideDrag.current = null;
+      return;
+    }
+
+    if (gesture.current) {
+      if (touchPointers().length < 2) gesture.current = null;
+      return;
+    }
+    if (drawingPointer.current !== pointerId) return;
+    if (shapeDraft.current) endShape();
+    else if (selectionDraft.current) endSelection();
+    else endStroke();
   };
 
-  const stopDrawing = () => {
-    setIsDrawing(false);
-    lastPos.current = null;
-    if (context) context.beginPath(); // Close path
-    onCanvasChange();
+  // The browser took the pointer away (palm, system gesture), so nothing it drew is kept
+  const handlePointerCancel = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (drawingPointer.current === event.pointerId) cancelStroke();
+    handlePointerUp(event);
+  };
+
+  // Dropped and uploaded photos land on the reference layer so drawing layers stay clean,
+  // as a floating image that can be positioned before it becomes pixels
+  const placeDroppedImage = (image: ImageSource, center: Point) => {
+    const background = getBackgroundSurface();
+    const target = background && !background.layer.locked ? background : getDrawableLayer();
+    if (target) floatImage(image, target.layer.id, center);
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -156,33 +1616,18 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ color,
     e.stopPropagation();
 
     const file = e.dataTransfer.files[0];
-    if (file && file.type.startsWith('image/')) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const img = new Image();
-        img.onload = () => {
-          if (!context || !canvasRef.current) return;
-          // Calculate position to center the dropped image or put at mouse coordinates
-          const rect = canvasRef.current.getBoundingClientRect();
-          const x = e.clientX - rect.left - (img.width / 4); // rough centering on mouse
-          const y = e.clientY - rect.top - (img.height / 4);
-          
-          // Draw image (scaled down if too big)
-          const maxDim = 300;
-          let drawW = img.width;
-          let drawH = img.height;
-          if (drawW > maxDim || drawH > maxDim) {
-              const ratio = Math.min(maxDim / drawW, maxDim / drawH);
-              drawW *= ratio;
-              drawH *= ratio;
-          }
-          
-          context.drawImage(img, x, y, drawW, drawH);
-          onCanvasChange();
-        };
-        img.src = event.target?.result as string;
-      };
-      reader.readAsDataURL(file);
+    if (file && isImageFile(file)) {
+      // Read the drop position now, the event is gone by the time the image loads
+      const at = getCoordinates(e.clientX, e.clientY);
+      if (onImageDrop) {
+        onImageDrop(file, at);
+        return;
+      }
+
+      // Decoding applies EXIF rotation and rasterizes SVG/HEIC
+      decodeImageFile(file, imageFileType(file))
+        .then((image) => placeDroppedImage(image, at))
+        .catch((err) => onError?.(err.message));
     }
   };
 
@@ -191,25 +1636,132 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ color,
     e.stopPropagation();
   };
 
+  // Switching tools finishes a label that's still being typed
+  useEffect(() => {
+    if (tool !== 'text' && textDraftRef.current) commitText();
+  }, [tool]);
+
+  const { width: docWidth, height: docHeight } = sizeRef.current;
+  const cursorClass = spaceHeld ? 'cursor-grab' : tool === 'text' ? 'cursor-text' : 'cursor-crosshair';
+
   return (
-    <div className="relative w-full h-full bg-white rounded-lg overflow-hidden shadow-inner cursor-crosshair touch-none">
+    <div
+      ref={containerRef}
+      className={`relative w-full h-full overflow-hidden touch-none ${cursorClass}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      onDrop={handleDrop}
+      onDragOver={handleDragOver}
+    >
+      {/* Canvas pixels are document pixels; zoom and pan only change how it's displayed */}
       <canvas
         ref={canvasRef}
-        className="w-full h-full block"
-        onMouseDown={startDrawing}
-        onMouseMove={draw}
-        onMouseUp={stopDrawing}
-        onMouseLeave={stopDrawing}
-        onTouchStart={startDrawing}
-        onTouchMove={draw}
-        onTouchEnd={stopDrawing}
-        onDrop={handleDrop}
-        onDragOver={handleDragOver}
+        className="absolute top-0 left-0 block bg-white shadow-2xl"
+        style={{
+          width: docWidth || undefined,
+          height: docHeight || undefined,
+          transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+          transformOrigin: '0 0',
+          imageRendering: view.zoom > 2 ? 'pixelated' : 'auto',
+        }}
       />
-      {/* Helper text overlay if empty? Nah, keep it clean. */}
+      {onionSkin && (
+        <img
+          src={onionSkin}
+          alt=""
+          draggable={false}
+          className="absolute top-0 left-0 pointer-events-none object-contain opacity-30 mix-blend-multiply"
+          style={{
+            width: docWidth || undefined,
+            height: docHeight || undefined,
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+            transformOrigin: '0 0',
+          }}
+        />
+      )}
+      {guides && hasGuides(guides) && (
+        <GuideOverlay
+          guides={guides}
+          width={docWidth}
+          height={docHeight}
+          view={view}
+          onHandlePointerDown={handleGuidePointerDown}
+        />
+      )}
+      {floating && (
+        <TransformOverlay
+          object={floating.object}
+          view={view}
+          cropping={cropping}
+          onHandlePointerDown={handleTransformPointerDown}
+          onToggleCrop={() => setCropping(c => !c)}
+          onApply={commitFloating}
+          onCancel={cancelFloating}
+        />
+      )}
+      {textDraft && (
+        <textarea
+          autoFocus
+          rows={Math.max(1, textDraft.value.split('\n').length)}
+          value={textDraft.value}
+          placeholder="Label"
+          onChange={(e) => updateTextDraft({ ...textDraft, value: e.target.value })}
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            // Enter places the label, Shift+Enter adds a line, Escape discards it
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              commitText();
+            } else if (e.key === 'Escape') {
+              updateTextDraft(null);
+            }
+          }}
+          onBlur={commitText}
+          onPointerDown={(e) => e.stopPropagation()}
+          className="absolute bg-transparent border border-dashed border-yellow-500 outline-none resize-none overflow-hidden p-0 m-0 whitespace-pre"
+          style={{
+            left: view.x + textDraft.x * view.zoom,
+            top: view.y + textDraft.y * view.zoom,
+            color,
+            font: `bold ${labelFontSize(brushSize) * view.zoom}px ${LABEL_FONT}`,
+            lineHeight: 1.2,
+            minWidth: 80,
+          }}
+        />
+      )}
+      <div
+        className="absolute bottom-3 right-3 flex items-center gap-1 bg-zinc-900/80 backdrop-blur px-1.5 py-1 rounded-full text-xs text-zinc-300 border border-zinc-700/50"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={() => zoomAt(viewRef.current.zoom / ZOOM_STEP)}
+          className="w-6 h-6 rounded-full hover:bg-zinc-700 hover:text-white"
+          title="Zoom out (Ctrl+-)"
+        >
+          −
+        </button>
+        <span className="w-12 text-center tabular-nums">{Math.round(view.zoom * 100)}%</span>
+        <button
+          onClick={() => zoomAt(viewRef.current.zoom * ZOOM_STEP)}
+          className="w-6 h-6 rounded-full hover:bg-zinc-700 hover:text-white"
+          title="Zoom in (Ctrl+=)"
+        >
+          +
+        </button>
+        <button
+          onClick={fitToScreen}
+          className="px-2 h-6 rounded-full hover:bg-zinc-700 hover:text-white"
+          title="Fit to screen (Ctrl+0)"
+        >
+          Fit
+        </button>
+        <span className="pl-1 pr-2 text-zinc-500 tabular-nums">{docWidth}×{docHeight}</span>
+      </div>
     </div>
   );
 });
 
 DrawingCanvas.displayName = 'DrawingCanvas';
-export default DrawingCanvas;
\ No newline at end of file
+export default DrawingCanvas;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import {
+  ExportContent, ExportFormat, ExportSettings, ImageMetadata,
+  exportImages, loadExportSettings, saveExportSettings,
+} from '../services/imageExport';
+import { downloadURL } from '../utils/image';
+import { CloseIcon, DownloadIcon } from './Icons';
+
+interface ExportDialogProps {
+  /** Data URL of the sketch, if there is one to export. */
+  sketch?: string;
+  /** Data URL of the generated image; without it only the sketch can be exported. */
+  result?: string;
+  metadata: ImageMetadata;
+  onClose: () => void;
+}
+
+const CONTENT_OPTIONS: { id: ExportContent; label: string; needs: 'sketch' | 'result' | 'both' }[] = [
+  { id: 'result', label: 'Result', needs: 'result' },
+  { id: 'sketch', label: 'Sketch', needs: 'sketch' },
+  { id: 'both', label: 'Both', needs: 'both' },
+  { id: 'side-by-side', label: 'Side by side', needs: 'both' },
+];
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'image/png', label: 'PNG' },
+  { id: 'image/jpeg', label: 'JPEG' },
+  { id: 'image/webp', label: 'WebP' },
+];
+
+// Long-edge targets; null keeps the original size
+const SIZE_PRESETS: (number | null)[] = [null, 1024, 2048, 4096];
+
+const inputClass = "bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none";
+const toggleClass = (active: boolean, enabled = true) =>
+  `flex-1 py-1.5 rounded-md text-xs transition-colors ${active ? 'bg-zinc-800 text-yellow-400' : enabled ? 'text-zinc-500 hover:text-zinc-300' : 'text-zinc-700 cursor-not-allowed'}`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ sketch, result, metadata, onClose }) => {
+  const available = (needs: 'sketch' | 'result' | 'both') =>
+    needs === 'both' ? !!(sketch && result) : needs === 'sketch' ? !!sketch : !!result;
+
+  const [settings, setSettingsState] = useState<ExportSettings>(() => {
+    const saved = loadExportSettings();
+    // Fall back to whatever there is when the remembered choice isn't possible here
+    const option = CONTENT_OPTIONS.find(o => o.id === saved.content);
+    return option && available(option.needs) ? saved : { ...saved, content: result ? 'result' : 'sketch' };
+  });
+  const [customSize, setCustomSize] = useState(() => settings.size && !SIZE_PRESETS.includes(settings.size) ? settings.size : 1536);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setSettings = (patch: Partial<ExportSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettingsState(next);
+    saveExportSettings(next);
+  };
+
+  const isCustomSize = settings.size !== null && !SIZE_PRESETS.includes(settings.size);
+
+  const handleExport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const files = await exportImages({ sketch, result }, settings, metadata);
+      for (const { name, blob } of files) {
+        const url = URL.createObjectURL(blob);
+        downloadURL(url, name);
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+      }
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Export failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-2xl p-5 max-w-md w-full flex flex-col gap-4 shadow-2xl">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <DownloadIcon className="w-5 h-5 text-yellow-400" />
+            Export
+          </h2>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white p-1">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="text-xs font-medium text-zinc-500">Content</label>
+          <div className="flex gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+            {CONTENT_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                disabled={!available(option.needs)}
+                onClick={() => setSettings({ content: option.id })}
+                className={toggleClass(settings.content === option.id, available(option.needs))}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="text-xs font-medium text-zinc-500">Format</label>
+          <div className="flex gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+            {FORMATS.map(format => (
+              <button key={format.id} onClick={() => setSettings({ format: format.id })} className={toggleClass(settings.format === format.id)}>
+                {format.label}
+              </button>
+            ))}
+          </div>
+          <div className={`flex items-center gap-3 ${settings.format === 'image/png' ? 'opacity-40' : ''}`}>
+            <span className="text-xs text-zinc-500 w-14">Quality</span>
+            <input
+              type="range"
+              min="10"
+              max="100"
+              value={Math.round(settings.quality * 100)}
+              disabled={settings.format === 'image/png'}
+              onChange={(e) => setSettings({ quality: Number(e.target.value) / 100 })}
+              className="flex-1 h-2 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+            />
+            <span className="text-xs text-zinc-400 w-8 text-right">{Math.round(settings.quality * 100)}</span>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="text-xs font-medium text-zinc-500">Size (longest side)</label>
+          <div className="flex gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+            {SIZE_PRESETS.map(size => (
+              <button key={String(size)} onClick={() => setSettings({ size })} className={toggleClass(settings.size === size)}>
+                {size ?? 'Original'}
+              </button>
+            ))}
+            <button onClick={() => setSettings({ size: customSize })} className={toggleClass(isCustomSize)}>
+              Custom
+            </button>
+          </div>
+          {isCustomSize && (
+            <input
+              type="number"
+              min="16"
+              max="8192"
+              value={customSize}
+              onChange={(e) => {
+                const size = Math.min(8192, Math.max(16, Number(e.target.value) || 16));
+                setCustomSize(size);
+                setSettings({ size });
+              }}
+              className={`${inputClass} w-32`}
+            />
+          )}
+        </div>
+
+        <label className={`flex items-center gap-2 text-xs ${settings.format === 'image/png' ? 'text-zinc-400' : 'text-zinc-600'}`}>
+          <input
+            type="checkbox"
+            checked={settings.metadata && settings.format === 'image/png'}
+            disabled={settings.format !== 'image/png'}
+            onChange={(e) => setSettings({ metadata: e.target.checked })}
+            className="accent-yellow-500"
+          />
+          Embed prompt and model (PNG only), so the file can be reopened with its prompt
+        </label>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <button
+          onClick={handleExport}
+          disabled={busy}
+          className="py-2 rounded-lg text-sm font-medium bg-yellow-500 hover:bg-yellow-400 text-zinc-900 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {busy ? 'Exporting...' : 'Export'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { GuideSettings, MAX_RADIAL_SEGMENTS, MIN_RADIAL_SEGMENTS } from '../utils/guides';
+
+export type GuideHandle = 'center' | 0 | 1;
+
+interface GuideOverlayProps {
+  guides: GuideSettings;
+  /** Document size in pixels. */
+  width: number;
+  height: number;
+  /** Current pan/zoom of the canvas, to place the guides in screen pixels. */
+  view: { x: number; y: number; zoom: number };
+  onHandlePointerDown: (event: React.PointerEvent, handle: GuideHandle) => void;
+}
+
+// Rays drawn out of each vanishing point
+const PERSPECTIVE_RAYS = 24;
+
+/**
+ * Symmetry axes, grid and perspective lines drawn over the document, plus draggable handles
+ * for the symmetry centre and vanishing points. Purely visual; the canvas never sees it.
+ */
+const GuideOverlay: React.FC<GuideOverlayProps> = ({ guides, width, height, view, onHandlePointerDown }) => {
+  if (!width || !height) return null;
+  const center = { x: guides.center.x * width, y: guides.center.y * height };
+  const reach = Math.hypot(width, height) * 2;
+  const vanishing = (guides.perspective === 'one-point' ? guides.vanishingPoints.slice(0, 1) : guides.perspective === 'two-point' ? guides.vanishingPoints : [])
+    .map(vp => ({ x: vp.x * width, y: vp.y * height }));
+
+  const lines: { x1: number; y1: number; x2: number; y2: number; color: string; dashed?: boolean }[] = [];
+
+  if (guides.grid === 'thirds') {
+    [1, 2].forEach(i => {
+      lines.push({ x1: (width * i) / 3, y1: 0, x2: (width * i) / 3, y2: height, color: '#71717a' });
+      lines.push({ x1: 0, y1: (height * i) / 3, x2: width, y2: (height * i) / 3, color: '#71717a' });
+    });
+  } else if (guides.grid === 'grid') {
+    const step = Math.max(8, guides.gridSize);
+    for (let x = step; x < width; x += step) lines.push({ x1: x, y1: 0, x2: x, y2: height, color: '#a1a1aa' });
+    for (let y = step; y < height; y += step) lines.push({ x1: 0, y1: y, x2: width, y2: y, color: '#a1a1aa' });
+  }
+
+  if (guides.symmetry === 'vertical') {
+    lines.push({ x1: center.x, y1: 0, x2: center.x, y2: height, color: '#eab308', dashed: true });
+  } else if (guides.symmetry === 'horizontal') {
+    lines.push({ x1: 0, y1: center.y, x2: width, y2: center.y, color: '#eab308', dashed: true });
+  } else if (guides.symmetry === 'radial') {
+    const segments = Math.min(MAX_RADIAL_SEGMENTS, Math.max(MIN_RADIAL_SEGMENTS, Math.round(guides.radialSegments)));
+    for (let i = 0; i < segments; i++) {
+      const angle = (2 * Math.PI * i) / segments - Math.PI / 2;
+      lines.push({ x1: center.x, y1: center.y, x2: center.x + Math.cos(angle) * reach, y2: center.y + Math.sin(angle) * reach, color: '#eab308', dashed: true });
+    }
+  }
+
+  if (vanishing.length > 0) {
+    // Horizon through the vanishing point(s)
+    const [a, b = { x: a.x + 1, y: a.y }] = vanishing;
+    const angle = Math.atan2(b.y - a.y, b.x - a.x);
+    lines.push({
+      x1: a.x - Math.cos(angle) * reach, y1: a.y - Math.sin(angle) * reach,
+      x2: a.x + Math.cos(angle) * reach, y2: a.y + Math.sin(angle) * reach,
+      color: '#0ea5e9',
+    });
+    vanishing.forEach(vp => {
+      for (let i = 0; i < PERSPECTIVE_RAYS; i++) {
+        const rayAngle = (2 * Math.PI * i) / PERSPECTIVE_RAYS;
+        lines.push({ x1: vp.x, y1: vp.y, x2: vp.x + Math.cos(rayAngle) * reach, y2: vp.y + Math.sin(rayAngle) * reach, color: '#38bdf8' });
+      }
+    });
+  }
+
+  const handles: { id: GuideHandle; point: { x: number; y: number }; title: string }[] = [
+    ...(guides.symmetry !== 'off' ? [{ id: 'center' as const, point: center, title: 'Symmetry centre' }] : []),
+    ...vanishing.map((point, i) => ({ id: i as 0 | 1, point, title: 'Vanishing point' })),
+  ];
+
+  return (
+    <>
+      <svg
+        className="absolute top-0 left-0 pointer-events-none overflow-hidden"
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`, transformOrigin: '0 0' }}
+      >
+        {lines.map((line, i) => (
+          <line
+            key={i}
+            {...line}
+            stroke={line.color}
+            strokeOpacity={0.6}
+            strokeWidth={1}
+            strokeDasharray={line.dashed ? '6 4' : undefined}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+      {handles.map(({ id, point, title }) => (
+        <div
+          key={String(id)}
+          className={`absolute w-3.5 h-3.5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 bg-white cursor-move ${id === 'center' ? 'border-yellow-500' : 'border-sky-500'}`}
+          style={{ left: view.x + point.x * view.zoom, top: view.y + point.y * view.zoom }}
+          title={title}
+          onPointerDown={(e) => onHandlePointerDown(e, id)}
+        />
+      ))}
+    </>
+  );
+};
+
+export default GuideOverlay;
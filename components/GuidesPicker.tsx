@@ -0,0 +1,102 @@
+import React from 'react';
+import { GridMode, GuideSettings, MAX_RADIAL_SEGMENTS, MIN_RADIAL_SEGMENTS, PerspectiveMode, SymmetryMode } from '../utils/guides';
+
+interface GuidesPickerProps {
+  guides: GuideSettings;
+  onChange: (guides: GuideSettings) => void;
+}
+
+const SYMMETRY: { id: SymmetryMode; label: string; title: string }[] = [
+  { id: 'off', label: 'Off', title: 'No symmetry' },
+  { id: 'vertical', label: '⇆', title: 'Mirror left/right' },
+  { id: 'horizontal', label: '⇅', title: 'Mirror top/bottom' },
+  { id: 'radial', label: 'Radial', title: 'Radial symmetry around the centre' },
+];
+
+const GRID: { id: GridMode; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'thirds', label: 'Thirds' },
+  { id: 'grid', label: 'Grid' },
+];
+
+const PERSPECTIVE: { id: PerspectiveMode; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'one-point', label: '1-point' },
+  { id: 'two-point', label: '2-point' },
+];
+
+const segmentClass = (active: boolean) =>
+  `flex-1 py-1 rounded-md text-xs transition-colors ${active ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-500 hover:text-zinc-300'}`;
+
+const inputClass = "w-16 bg-zinc-950 border border-zinc-700 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-yellow-500 focus:outline-none";
+
+// One labelled row of mutually exclusive options
+const Segmented = <T extends string>({ label, options, value, onChange }: {
+  label: string;
+  options: { id: T; label: string; title?: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) => (
+  <div className="flex items-center gap-2">
+    <span className="text-xs text-zinc-500 w-20 shrink-0">{label}</span>
+    <div className="flex-1 flex gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+      {options.map(option => (
+        <button key={option.id} onClick={() => onChange(option.id)} className={segmentClass(value === option.id)} title={option.title}>
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+/** Symmetry, composition grid and perspective guide settings for the canvas. */
+const GuidesPicker: React.FC<GuidesPickerProps> = ({ guides, onChange }) => {
+  const update = (patch: Partial<GuideSettings>) => onChange({ ...guides, ...patch });
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-sm font-medium text-zinc-400">Guides</label>
+      <Segmented label="Symmetry" options={SYMMETRY} value={guides.symmetry} onChange={(symmetry) => update({ symmetry })} />
+      {guides.symmetry === 'radial' && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-zinc-500 w-20 shrink-0">Segments</span>
+          <input
+            type="number"
+            min={MIN_RADIAL_SEGMENTS}
+            max={MAX_RADIAL_SEGMENTS}
+            value={guides.radialSegments}
+            onChange={(e) => update({ radialSegments: Math.min(MAX_RADIAL_SEGMENTS, Math.max(MIN_RADIAL_SEGMENTS, Number(e.target.value) || MIN_RADIAL_SEGMENTS)) })}
+            className={inputClass}
+          />
+        </div>
+      )}
+      <Segmented label="Overlay" options={GRID} value={guides.grid} onChange={(grid) => update({ grid })} />
+      {guides.grid === 'grid' && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-zinc-500 w-20 shrink-0">Spacing</span>
+          <input
+            type="number"
+            min="8"
+            max="1024"
+            value={guides.gridSize}
+            onChange={(e) => update({ gridSize: Math.min(1024, Math.max(8, Number(e.target.value) || 8)) })}
+            className={inputClass}
+          />
+          <span className="text-[10px] text-zinc-600">px</span>
+        </div>
+      )}
+      <Segmented label="Perspective" options={PERSPECTIVE} value={guides.perspective} onChange={(perspective) => update({ perspective })} />
+      {guides.perspective !== 'off' && (
+        <label className="flex items-center gap-2 text-xs text-zinc-400">
+          <input type="checkbox" checked={guides.snap} onChange={(e) => update({ snap: e.target.checked })} className="accent-yellow-500" />
+          Snap strokes to perspective lines
+        </label>
+      )}
+      {(guides.symmetry !== 'off' || guides.perspective !== 'off') && (
+        <p className="text-[10px] text-zinc-600">Drag the handles on the canvas to move the centre and vanishing points.</p>
+      )}
+    </div>
+  );
+};
+
+export default GuidesPicker;
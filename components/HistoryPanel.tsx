@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import {
+  HistoryEntry,
+  StorageUsage,
+  deleteHistoryEntry,
+  getStorageUsage,
+  listHistoryEntries,
+  purgeOldestEntries,
+} from '../services/historyStore';
+import { formatBytes } from '../services/geminiService';
+import { downloadURL, extensionForMimeType } from '../utils/image';
+import { CloseIcon, DownloadIcon, HistoryIcon, PencilIcon, RefreshIcon, SearchIcon, TrashIcon } from './Icons';
+
+interface HistoryPanelProps {
+  /** Bump to reload after new entries were saved elsewhere. */
+  refreshKey: number;
+  onClose: () => void;
+  onOpen: (entry: HistoryEntry) => void;
+  onRestoreSketch: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+}
+
+const PURGE_COUNT = 10;
+
+const iconButtonClass = "p-1.5 rounded-md text-zinc-400 hover:bg-zinc-800 hover:text-zinc-100 transition-colors";
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ refreshKey, onClose, onOpen, onRestoreSketch, onRerun }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [reloadKey, setReloadKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listHistoryEntries(query), getStorageUsage()])
+      .then(([list, storage]) => {
+        if (cancelled) return;
+        setEntries(list);
+        setUsage(storage);
+        setError(null);
+      })
+      .catch((err: any) => !cancelled && setError(err?.message || "Could not load history."));
+    return () => { cancelled = true; };
+  }, [query, refreshKey, reloadKey]);
+
+  // Object URLs for the result thumbnails, released when the list changes
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    entries.forEach(e => { urls[e.id] = URL.createObjectURL(e.result); });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [entries]);
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!confirm("Delete this entry from history?")) return;
+    try {
+      await deleteHistoryEntry(entry.id);
+      setReloadKey(k => k + 1);
+    } catch (err: any) {
+      setError(err?.message || "Could not delete the entry.");
+    }
+  };
+
+  // Results are stored in whatever format they were saved as (PNG, JPEG, WebP)
+  const handleDownload = (entry: HistoryEntry) => {
+    const url = URL.createObjectURL(entry.result);
+    downloadURL(url, `sketch-to-life-${entry.createdAt}.${extensionForMimeType(entry.result.type)}`);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handlePurge = async () => {
+    if (!confirm(`Delete the ${PURGE_COUNT} oldest history entries?`)) return;
+    try {
+      await purgeOldestEntries(PURGE_COUNT);
+      setReloadKey(k => k + 1);
+    } catch (err: any) {
+      setError(err?.message || "Could not purge history.");
+    }
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-40 w-full sm:w-96 bg-zinc-900 border-l border-zinc-800 shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
+      <div className="flex justify-between items-center p-4 border-b border-zinc-800">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2">
+          <HistoryIcon className="w-5 h-5 text-yellow-400" />
+          History
+        </h2>
+        <button onClick={onClose} className="text-zinc-400 hover:text-white p-2">
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-4 flex flex-col gap-3 border-b border-zinc-800">
+        <div className="relative">
+          <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500" />
+          <input
+            className="w-full bg-zinc-950 border border-zinc-700 rounded-lg pl-9 pr-3 py-2 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder-zinc-600"
+            placeholder="Search prompts..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        {usage && (
+          <div className="flex items-center justify-between text-xs text-zinc-500">
+            <span>
+              {formatBytes(usage.usage)} used{usage.quota > 0 && ` of ${formatBytes(usage.quota)}`}
+            </span>
+            <button onClick={handlePurge} className="text-red-400 hover:text-red-300">
+              Purge oldest
+            </button>
+          </div>
+        )}
+        {usage && usage.quota > 0 && (
+          <div className="h-1 bg-zinc-800 rounded-full overflow-hidden">
+            <div className="h-full bg-yellow-500" style={{ width: `${Math.min(100, (usage.usage / usage.quota) * 100)}%` }} />
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3">
+        {error && <div className="text-xs text-red-400">⚠️ {error}</div>}
+        {!error && entries.length === 0 && (
+          <div className="text-sm text-zinc-500 text-center py-8">
+            {query ? 'No results match your search.' : 'Generated images will show up here.'}
+          </div>
+        )}
+        {entries.map(entry => (
+          <div key={entry.id} className="flex gap-3 bg-zinc-950 border border-zinc-800 rounded-lg p-2">
+            <button onClick={() => onOpen(entry)} className="flex-none w-20 h-20 rounded-md overflow-hidden bg-black/50" title="Open">
+              {thumbnails[entry.id] && <img src={thumbnails[entry.id]} alt="" className="w-full h-full object-cover" />}
+            </button>
+            <div className="flex-1 min-w-0 flex flex-col gap-1">
+              <p className="text-xs text-zinc-200 line-clamp-2" title={entry.prompt}>{entry.prompt || <span className="italic text-zinc-500">No prompt</span>}</p>
+              <p className="text-[10px] text-zinc-500 truncate">
+                {entry.model} · {new Date(entry.createdAt).toLocaleString()}
+              </p>
+              <div className="flex gap-1 mt-auto">
+                <button onClick={() => handleDownload(entry)} className={iconButtonClass} title="Download">
+                  <DownloadIcon className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => onRestoreSketch(entry)} className={iconButtonClass} title="Restore sketch to canvas">
+                  <PencilIcon className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => onRerun(entry)} className={iconButtonClass} title="Re-run with same inputs">
+                  <RefreshIcon className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDelete(entry)} className={`${iconButtonClass} hover:text-red-400`} title="Delete">
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,156 @@
+import React from 'react';
+import { Layer } from '../utils/layers';
+import {
+  EyeIcon,
+  EyeOffIcon,
+  LockIcon,
+  UnlockIcon,
+  TrashIcon,
+  PlusIcon,
+  ChevronUpIcon,
+  ChevronDownIcon,
+} from './Icons';
+
+interface LayersPanelProps {
+  layers: Layer[];
+  activeLayerId: string;
+  sendSelectedOnly: boolean;
+  selectedLayerIds: string[];
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, direction: 'up' | 'down') => void;
+  onUpdate: (id: string, patch: Partial<Pick<Layer, 'visible' | 'opacity' | 'locked'>>) => void;
+  onToggleSendSelectedOnly: (value: boolean) => void;
+  onToggleSelected: (id: string) => void;
+}
+
+const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers,
+  activeLayerId,
+  sendSelectedOnly,
+  selectedLayerIds,
+  onSelect,
+  onAdd,
+  onRemove,
+  onMove,
+  onUpdate,
+  onToggleSendSelectedOnly,
+  onToggleSelected,
+}) => {
+  const drawingLayerCount = layers.filter(l => l.kind === 'drawing').length;
+
+  // Show the topmost layer first, like most paint programs
+  const ordered = layers.map((layer, index) => ({ layer, index })).reverse();
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-zinc-400">Layers</label>
+        <button
+          onClick={onAdd}
+          className="p-1 rounded-md text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300 transition-colors"
+          title="Add Layer"
+        >
+          <PlusIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+        {ordered.map(({ layer, index }) => {
+          const isActive = layer.id === activeLayerId;
+          const isBackground = layer.kind === 'background';
+          return (
+            <div
+              key={layer.id}
+              onClick={() => onSelect(layer.id)}
+              className={`flex flex-col gap-1 px-2 py-1.5 rounded-md cursor-pointer transition-colors ${isActive ? 'bg-zinc-800' : 'hover:bg-zinc-900'}`}
+            >
+              <div className="flex items-center gap-1.5">
+                {sendSelectedOnly && (
+                  <input
+                    type="checkbox"
+                    checked={selectedLayerIds.includes(layer.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => onToggleSelected(layer.id)}
+                    className="accent-yellow-500"
+                    title="Send this layer"
+                  />
+                )}
+                <span className={`flex-1 text-xs truncate ${isActive ? 'text-yellow-400' : 'text-zinc-300'}`}>
+                  {layer.name}
+                </span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { visible: !layer.visible }); }}
+                  className="p-1 text-zinc-500 hover:text-zinc-300"
+                  title={layer.visible ? 'Hide Layer' : 'Show Layer'}
+                >
+                  {layer.visible ? <EyeIcon className="w-3.5 h-3.5" /> : <EyeOffIcon className="w-3.5 h-3.5" />}
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { locked: !layer.locked }); }}
+                  className={`p-1 hover:text-zinc-300 ${layer.locked ? 'text-yellow-500' : 'text-zinc-500'}`}
+                  title={layer.locked ? 'Unlock Layer' : 'Lock Layer'}
+                >
+                  {layer.locked ? <LockIcon className="w-3.5 h-3.5" /> : <UnlockIcon className="w-3.5 h-3.5" />}
+                </button>
+                {!isBackground && (
+                  <>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onMove(layer.id, 'up'); }}
+                      disabled={index === layers.length - 1}
+                      className="p-1 text-zinc-500 hover:text-zinc-300 disabled:opacity-30"
+                      title="Move Up"
+                    >
+                      <ChevronUpIcon className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onMove(layer.id, 'down'); }}
+                      disabled={layers[index - 1]?.kind !== 'drawing'}
+                      className="p-1 text-zinc-500 hover:text-zinc-300 disabled:opacity-30"
+                      title="Move Down"
+                    >
+                      <ChevronDownIcon className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onRemove(layer.id); }}
+                      disabled={drawingLayerCount <= 1}
+                      className="p-1 text-zinc-500 hover:text-red-400 disabled:opacity-30"
+                      title="Delete Layer"
+                    >
+                      <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                )}
+              </div>
+              {isActive && (
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={Math.round(layer.opacity * 100)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => onUpdate(layer.id, { opacity: Number(e.target.value) / 100 })}
+                  className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                  title={`Opacity ${Math.round(layer.opacity * 100)}%`}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-zinc-500 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={sendSelectedOnly}
+          onChange={(e) => onToggleSendSelectedOnly(e.target.checked)}
+          className="accent-yellow-500"
+        />
+        Send only selected layers
+      </label>
+    </div>
+  );
+};
+
+export default LayersPanel;
@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LineArtMode, NO_PREPROCESSING, PREPROCESS_PRESETS, PreprocessOptions, isPreprocessing, preprocess } from '../utils/preprocess';
+import { createCanvas, loadImage } from '../utils/image';
+import { CloseIcon, WandIcon } from './Icons';
+
+interface PreprocessDialogProps {
+  /** Data URL of the uploaded image. */
+  source: string;
+  /** Called with the image to place: processed, or the original when nothing is enabled. */
+  onPlace: (url: string) => void;
+  onClose: () => void;
+}
+
+// The preview runs on a small copy so sliders stay responsive
+const PREVIEW_SIZE = 480;
+const STORAGE_KEY = 'sketch-to-life:preprocess';
+
+const loadOptions = (): PreprocessOptions => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...NO_PREPROCESSING, ...JSON.parse(raw) } : NO_PREPROCESSING;
+  } catch {
+    return NO_PREPROCESSING;
+  }
+};
+
+const LINE_ART_MODES: { id: LineArtMode; label: string }[] = [
+  { id: 'none', label: 'Keep tones' },
+  { id: 'threshold', label: 'Black & white' },
+  { id: 'edges', label: 'Trace edges' },
+];
+
+const toggleClass = (active: boolean) =>
+  `flex-1 py-1.5 rounded-md text-xs transition-colors ${active ? 'bg-zinc-800 text-yellow-400' : 'text-zinc-500 hover:text-zinc-300'}`;
+
+// Draws the image at a given scale and returns the canvas with its pixels
+const readPixels = (image: HTMLImageElement, scale: number) => {
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)));
+  // Transparent areas count as paper
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { canvas, ctx, pixels: ctx.getImageData(0, 0, canvas.width, canvas.height) };
+};
+
+const PreprocessDialog: React.FC<PreprocessDialogProps> = ({ source, onPlace, onClose }) => {
+  const [options, setOptionsState] = useState<PreprocessOptions>(loadOptions);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const smallRef = useRef<ImageData | null>(null);
+
+  const setOptions = (patch: Partial<PreprocessOptions>) => {
+    const next = { ...options, ...patch };
+    setOptionsState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Not remembering the choice is fine
+    }
+  };
+
+  useEffect(() => {
+    loadImage(source)
+      .then((img) => {
+        smallRef.current = readPixels(img, Math.min(1, PREVIEW_SIZE / Math.max(img.width, img.height))).pixels;
+        setImage(img);
+      })
+      .catch((err) => setError(err.message));
+  }, [source]);
+
+  // Live preview on the small copy
+  useEffect(() => {
+    const small = smallRef.current;
+    const canvas = previewRef.current;
+    if (!small || !canvas) return;
+    canvas.width = small.width;
+    canvas.height = small.height;
+    const result = showOriginal ? small : preprocess(small, options);
+    canvas.getContext('2d')?.putImageData(new ImageData(result.data, result.width, result.height), 0, 0);
+  }, [image, options, showOriginal]);
+
+  const handlePlace = () => {
+    if (!image) return;
+    if (!isPreprocessing(options)) {
+      onPlace(source);
+      return;
+    }
+    setBusy(true);
+    // Let the button show its busy state before the full-size pass blocks the thread
+    setTimeout(() => {
+      try {
+        const { canvas, ctx, pixels } = readPixels(image, 1);
+        const result = preprocess(pixels, options);
+        ctx.putImageData(new ImageData(result.data, result.width, result.height), 0, 0);
+        onPlace(canvas.toDataURL('image/png'));
+      } catch (err: any) {
+        setError(err.message || "Could not process the image.");
+        setBusy(false);
+      }
+    }, 0);
+  };
+
+  const activePreset = PREPROCESS_PRESETS.find(p => JSON.stringify(p.options) === JSON.stringify({ ...options, level: p.options.level }));
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-2xl p-5 max-w-2xl w-full flex flex-col gap-4 shadow-2xl max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <WandIcon className="w-5 h-5 text-yellow-400" />
+            Clean Up Image
+          </h2>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white p-1">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4">
+          <div
+            className="relative flex-1 min-h-48 rounded-lg bg-white border border-zinc-800 flex items-center justify-center overflow-hidden"
+            onPointerDown={() => setShowOriginal(true)}
+            onPointerUp={() => setShowOriginal(false)}
+            onPointerLeave={() => setShowOriginal(false)}
+          >
+            <canvas ref={previewRef} className="max-w-full max-h-80 object-contain" />
+            {!image && !error && <div className="absolute w-6 h-6 border-2 border-yellow-500 border-t-transparent rounded-full animate-spin" />}
+            <span className="absolute bottom-2 left-2 px-1.5 py-0.5 rounded bg-zinc-900/80 text-[10px] text-zinc-400 pointer-events-none">
+              {showOriginal ? 'Original' : 'Hold to compare'}
+            </span>
+          </div>
+
+          <div className="md:w-60 flex flex-col gap-3">
+            <div className="flex flex-wrap gap-1">
+              {PREPROCESS_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => setOptions(preset.options)}
+                  className={`px-2 py-1 rounded-md text-xs border transition-colors ${activePreset?.id === preset.id ? 'border-yellow-500 text-yellow-400' : 'border-zinc-700 text-zinc-400 hover:text-zinc-200'}`}
+                >
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-col gap-2 text-xs text-zinc-400">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={options.removeTint} onChange={(e) => setOptions({ removeTint: e.target.checked })} className="accent-yellow-500" />
+                Remove paper tint
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={options.normalizeContrast} onChange={(e) => setOptions({ normalizeContrast: e.target.checked })} className="accent-yellow-500" />
+                Normalize contrast
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={options.denoise} onChange={(e) => setOptions({ denoise: e.target.checked })} className="accent-yellow-500" />
+                Remove specks and noise
+              </label>
+            </div>
+
+            <div className="flex gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+              {LINE_ART_MODES.map(mode => (
+                <button key={mode.id} onClick={() => setOptions({ lineArt: mode.id })} className={toggleClass(options.lineArt === mode.id)}>
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+
+            {options.lineArt !== 'none' && (
+              <div className="flex items-center gap-3">
+                <span className="text-xs text-zinc-500 w-16">{options.lineArt === 'edges' ? 'Detail' : 'Threshold'}</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={Math.round(options.level * 100)}
+                  onChange={(e) => setOptions({ level: Number(e.target.value) / 100 })}
+                  className="flex-1 h-2 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                />
+              </div>
+            )}
+
+            <p className="text-[10px] text-zinc-600">Runs entirely in your browser; nothing is uploaded.</p>
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={() => onPlace(source)} disabled={busy} className="px-3 py-2 rounded-lg text-sm font-medium bg-zinc-800 hover:bg-zinc-700 text-zinc-200 transition-colors disabled:opacity-40">
+            Use original
+          </button>
+          <button
+            onClick={handlePlace}
+            disabled={busy || !image}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-yellow-500 hover:bg-yellow-400 text-zinc-900 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {busy ? 'Processing...' : 'Place on canvas'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreprocessDialog;
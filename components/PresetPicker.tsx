@@ -0,0 +1,171 @@
+import React, { useRef, useState } from 'react';
+import {
+  BUILT_IN_PRESETS,
+  PromptPreset,
+  createPresetId,
+  parsePresets,
+  serializePresets,
+  templateVariables,
+} from '../services/presets';
+import { downloadURL } from '../utils/image';
+import { SaveIcon, FolderOpenIcon, DownloadIcon, TrashIcon } from './Icons';
+
+interface PresetPickerProps {
+  userPresets: PromptPreset[];
+  onUserPresetsChange: (presets: PromptPreset[]) => void;
+  presetId: string | null;
+  onSelect: (preset: PromptPreset | null) => void;
+  values: Record<string, string>;
+  onValuesChange: (values: Record<string, string>) => void;
+  systemInstruction: string;
+  onSystemInstructionChange: (value: string) => void;
+  /** Free-form prompt, offered as the template when saving a new preset. */
+  prompt: string;
+  onPromptChange: (value: string) => void;
+  onError: (message: string) => void;
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder-zinc-600";
+const iconButtonClass = "p-1 rounded-md text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+const PresetPicker: React.FC<PresetPickerProps> = ({
+  userPresets,
+  onUserPresetsChange,
+  presetId,
+  onSelect,
+  values,
+  onValuesChange,
+  systemInstruction,
+  onSystemInstructionChange,
+  prompt,
+  onPromptChange,
+  onError,
+}) => {
+  const importRef = useRef<HTMLInputElement>(null);
+  const [showSystem, setShowSystem] = useState(systemInstruction.length > 0);
+
+  const all = [...BUILT_IN_PRESETS, ...userPresets];
+  const current = all.find(p => p.id === presetId) ?? null;
+  const variables = current ? templateVariables(current.template) : [];
+
+  const handleSelect = (id: string) => {
+    const preset = all.find(p => p.id === id) ?? null;
+    onSelect(preset);
+    if (preset?.systemInstruction) setShowSystem(true);
+  };
+
+  const handleSave = () => {
+    const template = prompt.trim();
+    if (!template) {
+      onError("Write an instruction first; it becomes the preset's template. Use {subject} and {style} as placeholders.");
+      return;
+    }
+    const name = window.prompt("Preset name", template.slice(0, 40));
+    if (!name?.trim()) return;
+    const preset: PromptPreset = {
+      id: createPresetId(),
+      name: name.trim(),
+      template,
+      systemInstruction: systemInstruction.trim() || undefined,
+    };
+    onUserPresetsChange([...userPresets, preset]);
+    onSelect(preset);
+    // The text now lives in the template; leaving it in the prompt would send it twice
+    onPromptChange('');
+  };
+
+  const handleDelete = () => {
+    if (!current || current.builtIn) return;
+    if (!confirm(`Delete the preset "${current.name}"?`)) return;
+    onUserPresetsChange(userPresets.filter(p => p.id !== current.id));
+    onSelect(null);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([serializePresets(userPresets)], { type: 'application/json' }));
+    downloadURL(url, 'sketch-to-life-presets.json');
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresets(await file.text());
+      // Re-importing the same file updates presets in place instead of duplicating them
+      const byId = new Map(userPresets.map(p => [p.id, p]));
+      imported.forEach(p => byId.set(p.id, p));
+      onUserPresetsChange([...byId.values()]);
+    } catch (err: any) {
+      onError(err.message || "Could not import presets.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-zinc-400">Preset</label>
+        <div className="flex items-center gap-0.5">
+          <button onClick={handleSave} className={iconButtonClass} title="Save instruction as preset">
+            <SaveIcon className="w-4 h-4" />
+          </button>
+          <button onClick={handleDelete} disabled={!current || current.builtIn} className={iconButtonClass} title="Delete preset">
+            <TrashIcon className="w-4 h-4" />
+          </button>
+          <button onClick={() => importRef.current?.click()} className={iconButtonClass} title="Import presets (JSON)">
+            <FolderOpenIcon className="w-4 h-4" />
+          </button>
+          <button onClick={handleExport} disabled={userPresets.length === 0} className={iconButtonClass} title="Export your presets (JSON)">
+            <DownloadIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <select className={inputClass} value={presetId ?? ''} onChange={(e) => handleSelect(e.target.value)}>
+        <option value="">None (free-form only)</option>
+        <optgroup label="Built-in">
+          {BUILT_IN_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </optgroup>
+        {userPresets.length > 0 && (
+          <optgroup label="Yours">
+            {userPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+
+      {current && (
+        <p className="text-xs text-zinc-500 leading-relaxed">{current.template}</p>
+      )}
+
+      {variables.map(name => (
+        <input
+          key={name}
+          className={inputClass}
+          placeholder={`${name}${current?.defaults?.[name] ? ` (default: ${current.defaults[name]})` : ''}`}
+          value={values[name] ?? ''}
+          onChange={(e) => onValuesChange({ ...values, [name]: e.target.value })}
+        />
+      ))}
+
+      <button
+        onClick={() => setShowSystem(s => !s)}
+        className="self-start text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+      >
+        {showSystem ? '▾' : '▸'} System instruction
+      </button>
+      {showSystem && (
+        <textarea
+          className={`${inputClass} h-16 resize-none`}
+          placeholder="Standing rules for the model, e.g. 'You are a concept artist. Never add text.'"
+          value={systemInstruction}
+          onChange={(e) => onSystemInstructionChange(e.target.value)}
+        />
+      )}
+
+      <input type="file" ref={importRef} className="hidden" accept="application/json,.json" onChange={handleImport} />
+    </div>
+  );
+};
+
+export default PresetPicker;
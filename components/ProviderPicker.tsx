@@ -0,0 +1,98 @@
+import React from 'react';
+import { PROVIDER_OPTIONS, ProviderId, ProviderSettings } from '../services/providers';
+
+interface ProviderPickerProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder-zinc-600";
+
+const ProviderPicker: React.FC<ProviderPickerProps> = ({ settings, onChange }) => {
+  const current = PROVIDER_OPTIONS.find(p => p.id === settings.providerId) ?? PROVIDER_OPTIONS[0];
+
+  const handleProviderChange = (providerId: ProviderId) => {
+    const option = PROVIDER_OPTIONS.find(p => p.id === providerId);
+    if (!option) return;
+    // Switching provider resets the model to that provider's default
+    onChange({ ...settings, providerId, model: option.models[0] });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-sm font-medium text-zinc-400">Model</label>
+      <select
+        className={inputClass}
+        value={settings.providerId}
+        onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+      >
+        {PROVIDER_OPTIONS.map(p => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+
+      {settings.providerId === 'openai-compatible' ? (
+        <>
+          {/* HTTP endpoints vary a lot, so the model is free text */}
+          <input
+            className={inputClass}
+            list="http-models"
+            placeholder="Model name"
+            value={settings.model}
+            onChange={(e) => onChange({ ...settings, model: e.target.value })}
+          />
+          <datalist id="http-models">
+            {current.models.map(m => <option key={m} value={m} />)}
+          </datalist>
+          <input
+            className={inputClass}
+            placeholder="https://api.example.com/v1"
+            value={settings.httpEndpoint}
+            onChange={(e) => onChange({ ...settings, httpEndpoint: e.target.value })}
+          />
+          <input
+            type="password"
+            className={inputClass}
+            placeholder="API key"
+            value={settings.httpApiKey}
+            onChange={(e) => onChange({ ...settings, httpApiKey: e.target.value })}
+          />
+        </>
+      ) : (
+        <select
+          className={inputClass}
+          value={settings.model}
+          onChange={(e) => onChange({ ...settings, model: e.target.value })}
+        >
+          {current.models.map(m => (
+            <option key={m} value={m}>{m}</option>
+          ))}
+        </select>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-zinc-500" title="Smaller uploads; the sketch loses transparency">
+        <input
+          type="checkbox"
+          checked={settings.sendJpeg}
+          onChange={(e) => onChange({ ...settings, sendJpeg: e.target.checked })}
+          className="accent-yellow-500"
+        />
+        Send images as JPEG
+      </label>
+
+      <label className="flex items-center justify-between gap-2 text-xs text-zinc-500">
+        Timeout (seconds)
+        <input
+          type="number"
+          min={10}
+          max={600}
+          className={`${inputClass} w-20 py-1`}
+          value={settings.timeoutSeconds}
+          onChange={(e) => onChange({ ...settings, timeoutSeconds: Math.min(600, Math.max(10, Number(e.target.value) || 120)) })}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default ProviderPicker;
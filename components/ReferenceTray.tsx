@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { ReferenceImage } from '../types';
+import { MAX_REFERENCE_IMAGES, MAX_REQUEST_BYTES, base64Size, formatBytes } from '../services/geminiService';
+import { IMAGE_ACCEPT, imageFileToDataURL, isImageFile, parseDataURL, toDataURL } from '../utils/image';
+import { PlusIcon, CloseIcon } from './Icons';
+
+interface ReferenceTrayProps {
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+  onError: (message: string) => void;
+}
+
+const ROLE_SUGGESTIONS = ['Style reference', 'Character reference', 'Product photo', 'Color palette', 'Pose reference'];
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder-zinc-600";
+
+const ReferenceTray: React.FC<ReferenceTrayProps> = ({ references, onChange, onError }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragOver, setDragOver] = useState(false);
+
+  const totalBytes = references.reduce((sum, r) => sum + base64Size(r.data), 0);
+
+  const addFiles = async (files: File[]) => {
+    const images = files.filter(isImageFile);
+    if (images.length === 0) return;
+
+    const room = MAX_REFERENCE_IMAGES - references.length;
+    if (images.length > room) {
+      onError(room > 0
+        ? `Only ${room} more reference image(s) can be added (limit ${MAX_REFERENCE_IMAGES}).`
+        : `The reference tray is full (limit ${MAX_REFERENCE_IMAGES}). Remove one first.`);
+      return;
+    }
+
+    let added: ReferenceImage[];
+    try {
+      // HEIC/SVG and friends become PNG, JPEGs get their EXIF rotation applied
+      added = await Promise.all(images.map(async (file, i) => {
+        const { data, mimeType } = parseDataURL(await imageFileToDataURL(file));
+        return { id: `${Date.now().toString(36)}-${i}`, name: file.name, data, mimeType, role: '' };
+      }));
+    } catch (err: any) {
+      onError(err.message || "Could not read the image.");
+      return;
+    }
+    // The sketch needs room too, so leave some of the request budget for it
+    const bytes = totalBytes + added.reduce((sum, r) => sum + base64Size(r.data), 0);
+    if (bytes > MAX_REQUEST_BYTES / 2) {
+      onError(`Reference images would total ${formatBytes(bytes)}; keep them under ${formatBytes(MAX_REQUEST_BYTES / 2)}.`);
+      return;
+    }
+    onChange([...references, ...added]);
+  };
+
+  const update = (id: string, role: string) => onChange(references.map(r => r.id === id ? { ...r, role } : r));
+  const remove = (id: string) => onChange(references.filter(r => r.id !== id));
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    addFiles([...e.dataTransfer.files]);
+  };
+
+  return (
+    <div
+      className="flex flex-col gap-2"
+      onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+    >
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-zinc-400">References</label>
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] text-zinc-600">
+            {references.length}/{MAX_REFERENCE_IMAGES}{references.length > 0 && ` · ${formatBytes(totalBytes)}`}
+          </span>
+          <button
+            onClick={() => inputRef.current?.click()}
+            disabled={references.length >= MAX_REFERENCE_IMAGES}
+            className="p-1 rounded-md text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+            title="Add Reference Image"
+          >
+            <PlusIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {references.length === 0 ? (
+        <button
+          onClick={() => inputRef.current?.click()}
+          className={`py-3 rounded-lg border border-dashed text-xs transition-colors ${dragOver ? 'border-yellow-500 text-yellow-500' : 'border-zinc-700 text-zinc-600 hover:text-zinc-400'}`}
+        >
+          Drop style, character or product images here
+        </button>
+      ) : (
+        <div className={`flex flex-col gap-1 bg-zinc-950 p-1 rounded-lg border ${dragOver ? 'border-yellow-500' : 'border-zinc-800'}`}>
+          {references.map((reference) => (
+            <div key={reference.id} className="flex items-center gap-2 p-1">
+              <img
+                src={toDataURL(reference.data, reference.mimeType)}
+                alt={reference.name}
+                title={reference.name}
+                className="w-10 h-10 rounded object-cover bg-zinc-800 shrink-0"
+              />
+              <input
+                className={inputClass}
+                list="reference-roles"
+                placeholder="Role (optional)"
+                value={reference.role}
+                onChange={(e) => update(reference.id, e.target.value)}
+              />
+              <button
+                onClick={() => remove(reference.id)}
+                className="p-1 rounded-md text-zinc-600 hover:text-red-400 transition-colors shrink-0"
+                title="Remove"
+              >
+                <CloseIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <datalist id="reference-roles">
+        {ROLE_SUGGESTIONS.map(role => <option key={role} value={role} />)}
+      </datalist>
+
+      <input
+        type="file"
+        ref={inputRef}
+        className="hidden"
+        accept={IMAGE_ACCEPT}
+        multiple
+        onChange={(e) => {
+          addFiles([...(e.target.files ?? [])]);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default ReferenceTray;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Candidate } from '../types';
+import { formatSafetyCategory } from '../services/errors';
+import { SparklesIcon, CloseIcon, DownloadIcon, UndoIcon, RefreshIcon, MessageIcon } from './Icons';
+
+interface ResultsGridProps {
+  candidates: Candidate[];
+  onClose: () => void;
+  onDownload: (candidate: Candidate) => void;
+  onUseAsBase: (candidate: Candidate) => void;
+  onReroll: (candidate: Candidate) => void;
+  /** Starts a conversational refinement session from this result. */
+  onRefine: (candidate: Candidate) => void;
+  /** False when the inputs of these results are unknown (e.g. opened from a project file). */
+  canReroll?: boolean;
+}
+
+const actionClass = "px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-200 flex items-center gap-1.5 text-xs font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Ratings worth pointing out; NEGLIGIBLE/LOW are the normal case
+const NOTABLE_PROBABILITIES = ['MEDIUM', 'HIGH'];
+
+// The model's commentary, an unusual finish reason and any flagged safety categories
+const ModelNotes: React.FC<{ candidate: Candidate }> = ({ candidate }) => {
+  const text = candidate.text ?? [];
+  const flagged = (candidate.safetyRatings ?? []).filter(r => r.blocked || NOTABLE_PROBABILITIES.includes(r.probability ?? ''));
+  const unusualFinish = candidate.finishReason && candidate.finishReason !== 'STOP' ? candidate.finishReason : null;
+  if (text.length === 0 && flagged.length === 0 && !unusualFinish) return null;
+
+  return (
+    <div className="flex flex-col gap-1.5 text-xs">
+      {text.map((paragraph, i) => (
+        <p key={i} className="text-zinc-400 italic leading-relaxed whitespace-pre-wrap">{paragraph}</p>
+      ))}
+      {(flagged.length > 0 || unusualFinish) && (
+        <div className="flex flex-wrap items-center gap-1">
+          {unusualFinish && <span className="text-[10px] text-zinc-500">Finished: {unusualFinish}</span>}
+          {flagged.map(rating => (
+            <span
+              key={rating.category}
+              className={`px-1.5 py-0.5 rounded text-[10px] ${rating.blocked ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/10 text-yellow-400'}`}
+              title={rating.category}
+            >
+              {rating.blocked ? 'Blocked: ' : ''}{formatSafetyCategory(rating.category)}{rating.probability ? ` (${rating.probability.toLowerCase()})` : ''}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ResultsGrid: React.FC<ResultsGridProps> = ({ candidates, onClose, onDownload, onUseAsBase, onReroll, onRefine, canReroll = true }) => {
+  // Picking a candidate shows it large; null means the grid view
+  const [pickedId, setPickedId] = useState<string | null>(null);
+  const picked = candidates.find(c => c.id === pickedId && c.status === 'done');
+
+  const done = candidates.filter(c => c.status === 'done').length;
+  const pending = candidates.filter(c => c.status === 'pending').length;
+
+  const renderActions = (candidate: Candidate) => (
+    <div className="flex gap-2 justify-end">
+      <button onClick={() => onReroll(candidate)} disabled={!canReroll || candidate.status === 'pending'} className={actionClass} title="Re-roll this slot">
+        <RefreshIcon className="w-3.5 h-3.5" />
+        Re-roll
+      </button>
+      <button onClick={() => onRefine(candidate)} disabled={candidate.status !== 'done'} className={actionClass} title="Keep editing this result with follow-up instructions">
+        <MessageIcon className="w-3.5 h-3.5" />
+        Refine
+      </button>
+      <button onClick={() => onUseAsBase(candidate)} disabled={candidate.status !== 'done'} className={actionClass}>
+        <UndoIcon className="w-3.5 h-3.5" />
+        Use as Base
+      </button>
+      <button
+        onClick={() => onDownload(candidate)}
+        disabled={candidate.status !== 'done'}
+        className="px-3 py-1.5 rounded-lg bg-yellow-500 hover:bg-yellow-400 text-zinc-900 flex items-center gap-1.5 text-xs font-bold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <DownloadIcon className="w-3.5 h-3.5" />
+        Download
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-2xl p-4 max-w-5xl w-full max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <SparklesIcon className="text-yellow-400" />
+            {candidates.length > 1 ? `Results (${done}/${candidates.length})` : 'Result'}
+            {pending > 0 && (
+              <div className="w-4 h-4 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin"></div>
+            )}
+          </h2>
+          <div className="flex items-center gap-2">
+            {picked && candidates.length > 1 && (
+              <button onClick={() => setPickedId(null)} className="text-xs text-zinc-400 hover:text-white px-2 py-1">
+                Back to all
+              </button>
+            )}
+            <button onClick={onClose} className="text-zinc-400 hover:text-white p-2">
+              <CloseIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {picked || (candidates.length === 1 && candidates[0].status === 'done') ? (
+          (() => {
+            const candidate = picked ?? candidates[0];
+            return (
+              <>
+                <div className="flex-1 overflow-hidden bg-black/50 rounded-lg flex items-center justify-center border border-zinc-800 relative">
+                  <img src={candidate.image} alt="Generated" className="max-w-full max-h-full object-contain" />
+                </div>
+                <div className="mt-3"><ModelNotes candidate={candidate} /></div>
+                <div className="mt-3">{renderActions(candidate)}</div>
+              </>
+            );
+          })()
+        ) : (
+          <div className={`flex-1 overflow-y-auto grid gap-3 ${candidates.length > 1 ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-1'}`}>
+            {candidates.map((candidate, index) => (
+              <div key={candidate.id} className="flex flex-col gap-2 bg-zinc-950 border border-zinc-800 rounded-lg p-2">
+                <div className="aspect-square bg-black/50 rounded-md flex items-center justify-center overflow-hidden relative">
+                  {candidate.status === 'pending' && (
+                    <div className="flex flex-col items-center gap-2 text-xs text-zinc-500">
+                      <div className="w-6 h-6 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin"></div>
+                      Generating #{index + 1}...
+                      {candidate.note && <span className="text-[10px] text-zinc-600">{candidate.note}</span>}
+                    </div>
+                  )}
+                  {candidate.status === 'error' && (
+                    <div className="px-4 text-center text-xs text-red-400">
+                      ⚠️ {candidate.error}
+                    </div>
+                  )}
+                  {candidate.status === 'done' && (
+                    <img
+                      src={candidate.image}
+                      alt={`Variation ${index + 1}`}
+                      onClick={() => setPickedId(candidate.id)}
+                      className="max-w-full max-h-full object-contain cursor-zoom-in"
+                    />
+                  )}
+                </div>
+                <ModelNotes candidate={candidate} />
+                {renderActions(candidate)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResultsGrid;
@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EditSession, SessionTurn } from '../types';
+import { childrenOf, latestLeaf, threadTo } from '../services/session';
+import { BranchIcon, CloseIcon, DownloadIcon, MessageIcon, UndoIcon } from './Icons';
+
+interface SessionPanelProps {
+  session: EditSession;
+  onSend: (prompt: string) => void;
+  onCancel: () => void;
+  /** Makes a turn the head of the thread; the next prompt continues from it. */
+  onSelectTurn: (id: string) => void;
+  onUseAsBase: (turn: SessionTurn) => void;
+  onDownload: (turn: SessionTurn) => void;
+  onClose: () => void;
+}
+
+const iconButtonClass = "p-1.5 rounded-md text-zinc-400 hover:bg-zinc-800 hover:text-zinc-100 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+const SessionPanel: React.FC<SessionPanelProps> = ({ session, onSend, onCancel, onSelectTurn, onUseAsBase, onDownload, onClose }) => {
+  const [prompt, setPrompt] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Show the whole branch the head is on, including turns after it
+  const thread = threadTo(session, latestLeaf(session, session.activeId));
+  const headIndex = thread.findIndex(t => t.id === session.activeId);
+  const pending = session.turns.some(t => t.status === 'pending');
+  const branching = headIndex < thread.length - 1;
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [session.turns.length]);
+
+  const handleSend = () => {
+    if (!prompt.trim() || pending) return;
+    onSend(prompt.trim());
+    setPrompt('');
+  };
+
+  // Moving between sibling branches lands on the newest turn of that branch
+  const switchBranch = (turn: SessionTurn, offset: number) => {
+    const siblings = childrenOf(session, turn.parentId);
+    const next = siblings[siblings.findIndex(s => s.id === turn.id) + offset];
+    if (next) onSelectTurn(latestLeaf(session, next.id));
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-40 w-full sm:w-96 bg-zinc-900 border-l border-zinc-800 shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
+      <div className="flex justify-between items-center p-4 border-b border-zinc-800">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2">
+          <MessageIcon className="w-5 h-5 text-yellow-400" />
+          Refine
+        </h2>
+        <button onClick={onClose} className="text-zinc-400 hover:text-white p-1">
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3">
+        {thread.map((turn, index) => {
+          const siblings = childrenOf(session, turn.parentId);
+          const position = siblings.findIndex(s => s.id === turn.id);
+          const isHead = turn.id === session.activeId;
+          return (
+            <div
+              key={turn.id}
+              className={`flex flex-col gap-2 p-2 rounded-lg border transition-opacity ${isHead ? 'border-yellow-500/60 bg-zinc-950' : 'border-zinc-800 bg-zinc-950/60'} ${index > headIndex ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-sm text-zinc-200 whitespace-pre-wrap">
+                  {turn.prompt || <span className="text-zinc-500 italic">{index === 0 ? 'Original result' : 'No instruction'}</span>}
+                </p>
+                {siblings.length > 1 && (
+                  <div className="flex items-center gap-1 text-[10px] text-zinc-500 shrink-0" title="Branches from the previous turn">
+                    <button onClick={() => switchBranch(turn, -1)} disabled={position === 0} className="px-1 hover:text-zinc-200 disabled:opacity-30">‹</button>
+                    {position + 1}/{siblings.length}
+                    <button onClick={() => switchBranch(turn, 1)} disabled={position === siblings.length - 1} className="px-1 hover:text-zinc-200 disabled:opacity-30">›</button>
+                  </div>
+                )}
+              </div>
+
+              <div className="aspect-square bg-black/50 rounded-md flex items-center justify-center overflow-hidden">
+                {turn.status === 'pending' && (
+                  <div className="w-6 h-6 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin"></div>
+                )}
+                {turn.status === 'error' && <div className="px-4 text-center text-xs text-red-400">⚠️ {turn.error}</div>}
+                {turn.status === 'done' && <img src={turn.result} alt={turn.prompt} className="max-w-full max-h-full object-contain" />}
+              </div>
+
+              {turn.text?.map((paragraph, i) => (
+                <p key={i} className="text-xs text-zinc-400 italic whitespace-pre-wrap">{paragraph}</p>
+              ))}
+
+              <div className="flex items-center justify-end gap-1">
+                <button
+                  onClick={() => onSelectTurn(turn.id)}
+                  disabled={isHead || turn.status !== 'done'}
+                  className={iconButtonClass}
+                  title="Continue from here (starts a new branch)"
+                >
+                  <BranchIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onUseAsBase(turn)} disabled={turn.status !== 'done'} className={iconButtonClass} title="Use as base sketch">
+                  <UndoIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDownload(turn)} disabled={turn.status !== 'done'} className={iconButtonClass} title="Download">
+                  <DownloadIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={endRef} />
+      </div>
+
+      <div className="p-4 border-t border-zinc-800 flex flex-col gap-2">
+        {branching && (
+          <p className="text-[10px] text-yellow-500/80">Sending continues from the highlighted turn as a new branch.</p>
+        )}
+        <textarea
+          className="w-full h-20 bg-zinc-950 border border-zinc-700 rounded-lg p-3 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none resize-none placeholder-zinc-600"
+          placeholder="e.g. 'Make the sky darker'"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+        />
+        {pending ? (
+          <button onClick={onCancel} className="w-full py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-sm font-medium text-zinc-200 transition-colors">
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleSend}
+            disabled={!prompt.trim()}
+            className="w-full py-2 rounded-lg bg-yellow-500 hover:bg-yellow-400 text-sm font-bold text-zinc-900 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Send
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionPanel;
@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { Storyboard, StoryboardFrame } from '../types';
+import { AnimationFormat, updateFrame } from '../services/storyboard';
+import { canRecordWebM } from '../utils/video';
+import {
+  ChevronDownIcon, ChevronUpIcon, CloseIcon, CopyIcon, DownloadIcon, FilmIcon,
+  PauseIcon, PlayIcon, PlusIcon, RefreshIcon, SparklesIcon, TrashIcon,
+} from './Icons';
+
+interface StoryboardPanelProps {
+  storyboard: Storyboard | null;
+  onionSkin: boolean;
+  onOnionSkinChange: (enabled: boolean) => void;
+  /** Turns the current canvas into the first frame. */
+  onStart: () => void;
+  /** Adds a frame after the active one, blank or as a copy of it. */
+  onAddFrame: (duplicate: boolean) => void;
+  onSelectFrame: (id: string) => void;
+  onDeleteFrame: (id: string) => void;
+  /** Edits that don't touch the canvas: notes, durations, order. */
+  onChange: (storyboard: Storyboard) => void;
+  /** Generates the frames that have no result yet, or just the given one. */
+  onGenerate: (frameId?: string) => void;
+  onCancel: () => void;
+  onExport: (format: AnimationFormat) => Promise<void>;
+  /** Drops every frame; the canvas keeps whatever is on it. */
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+const actionClass = "px-2.5 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-200 flex items-center gap-1.5 text-xs font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+const iconButtonClass = "p-1 rounded-md text-zinc-500 hover:bg-zinc-800 hover:text-zinc-100 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+// Loops through the frames at their own durations
+const Preview: React.FC<{ frames: StoryboardFrame[] }> = ({ frames }) => {
+  const [playing, setPlaying] = useState(false);
+  const [index, setIndex] = useState(0);
+  const frame = frames[index % frames.length];
+
+  useEffect(() => {
+    if (!playing || !frame) return;
+    const timer = setTimeout(() => setIndex(i => (i + 1) % frames.length), frame.duration);
+    return () => clearTimeout(timer);
+  }, [playing, index, frames.length, frame?.duration]);
+
+  if (!frame) return null;
+  return (
+    <div className="relative rounded-lg overflow-hidden bg-white border border-zinc-800">
+      <img src={frame.result ?? frame.sketch} alt={`Frame ${(index % frames.length) + 1}`} className="w-full aspect-video object-contain" />
+      <button
+        onClick={() => setPlaying(p => !p)}
+        className="absolute bottom-2 left-2 p-1.5 rounded-full bg-zinc-900/80 text-zinc-200 hover:text-yellow-400 transition-colors"
+        title={playing ? 'Pause preview' : 'Play preview'}
+      >
+        {playing ? <PauseIcon className="w-3.5 h-3.5" /> : <PlayIcon className="w-3.5 h-3.5" />}
+      </button>
+      <span className="absolute bottom-2 right-2 px-1.5 py-0.5 rounded bg-zinc-900/80 text-[10px] text-zinc-400">
+        {(index % frames.length) + 1}/{frames.length}
+      </span>
+    </div>
+  );
+};
+
+const StoryboardPanel: React.FC<StoryboardPanelProps> = ({
+  storyboard, onionSkin, onOnionSkinChange, onStart, onAddFrame, onSelectFrame, onDeleteFrame,
+  onChange, onGenerate, onCancel, onExport, onDiscard, onClose,
+}) => {
+  const [exporting, setExporting] = useState<AnimationFormat | null>(null);
+  const frames = storyboard?.frames ?? [];
+  const generating = frames.some(f => f.status === 'pending');
+  const missing = frames.filter(f => !f.result).length;
+
+  const move = (index: number, offset: number) => {
+    if (!storyboard) return;
+    const next = [...frames];
+    const [frame] = next.splice(index, 1);
+    next.splice(index + offset, 0, frame);
+    onChange({ ...storyboard, frames: next });
+  };
+
+  const runExport = async (format: AnimationFormat) => {
+    setExporting(format);
+    try {
+      await onExport(format);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-40 w-full sm:w-96 bg-zinc-900 border-l border-zinc-800 shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
+      <div className="flex justify-between items-center p-4 border-b border-zinc-800">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2">
+          <FilmIcon className="w-5 h-5 text-yellow-400" />
+          Storyboard
+        </h2>
+        <button onClick={onClose} className="text-zinc-400 hover:text-white p-1">
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {!storyboard ? (
+        <div className="p-6 flex flex-col items-center gap-3 text-center text-sm text-zinc-500">
+          <p>Draw keyframes one after another, generate each with the same instruction, and export the sequence as an animation.</p>
+          <button onClick={onStart} className={actionClass}>
+            <PlusIcon className="w-3.5 h-3.5" /> Start with the current canvas
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="p-4 border-b border-zinc-800 flex flex-col gap-3">
+            <Preview frames={frames} />
+            <div className="flex flex-wrap gap-2">
+              {generating ? (
+                <button onClick={onCancel} className={actionClass}>
+                  <CloseIcon className="w-3.5 h-3.5" /> Cancel
+                </button>
+              ) : (
+                <button onClick={() => onGenerate()} disabled={missing === 0} className={actionClass}>
+                  <SparklesIcon className="w-3.5 h-3.5" /> Generate {missing > 0 ? `${missing} frame${missing === 1 ? '' : 's'}` : 'frames'}
+                </button>
+              )}
+              <button onClick={() => runExport('gif')} disabled={generating || exporting !== null} className={actionClass}>
+                <DownloadIcon className="w-3.5 h-3.5" /> {exporting === 'gif' ? 'Encoding...' : 'GIF'}
+              </button>
+              <button
+                onClick={() => runExport('webm')}
+                disabled={generating || exporting !== null || !canRecordWebM()}
+                className={actionClass}
+                title={canRecordWebM() ? 'Recorded in real time' : "This browser can't record WebM"}
+              >
+                <DownloadIcon className="w-3.5 h-3.5" /> {exporting === 'webm' ? 'Recording...' : 'WebM'}
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-zinc-400">
+              <input type="checkbox" checked={onionSkin} onChange={(e) => onOnionSkinChange(e.target.checked)} className="accent-yellow-500" />
+              Onion skin (show the previous frame while drawing)
+            </label>
+            <p className="text-[10px] text-zinc-600">
+              Each frame uses the sidebar instruction plus its note, with the previous frame's result as a reference.
+              Frames without a result export as their sketch.
+            </p>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-2 flex flex-col gap-1">
+            {frames.map((frame, index) => {
+              const active = frame.id === storyboard.activeId;
+              return (
+                <div
+                  key={frame.id}
+                  className={`flex gap-2 p-1.5 rounded-lg border transition-colors ${active ? 'border-yellow-500/60 bg-zinc-800/60' : 'border-transparent hover:bg-zinc-800/40'}`}
+                >
+                  <button onClick={() => onSelectFrame(frame.id)} className="flex gap-1 shrink-0" title={active ? 'On the canvas' : 'Edit this frame'}>
+                    <img src={frame.sketch} alt={`Frame ${index + 1} sketch`} className="w-12 h-12 rounded object-contain bg-white" />
+                    <div className="w-12 h-12 rounded bg-zinc-800 overflow-hidden flex items-center justify-center">
+                      {frame.status === 'pending' ? (
+                        <div className="w-4 h-4 border-2 border-yellow-500 border-t-transparent rounded-full animate-spin" />
+                      ) : frame.result ? (
+                        <img src={frame.result} alt={`Frame ${index + 1}`} className="w-full h-full object-cover" />
+                      ) : null}
+                    </div>
+                  </button>
+                  <div className="flex-1 min-w-0 flex flex-col gap-1">
+                    <div className="flex items-center gap-1 text-xs text-zinc-400">
+                      <span className="font-medium text-zinc-300">{index + 1}</span>
+                      <input
+                        type="number"
+                        min="20"
+                        step="50"
+                        value={frame.duration}
+                        onChange={(e) => onChange(updateFrame(storyboard, frame.id, { duration: Math.max(20, Number(e.target.value) || 20) }))}
+                        className="w-16 bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-[11px] focus:outline-none focus:ring-1 focus:ring-yellow-500"
+                        title="Duration (ms)"
+                      />
+                      <span className="text-[10px] text-zinc-600">ms</span>
+                      <div className="ml-auto flex">
+                        <button onClick={() => move(index, -1)} disabled={index === 0} className={iconButtonClass} title="Move up">
+                          <ChevronUpIcon className="w-3.5 h-3.5" />
+                        </button>
+                        <button onClick={() => move(index, 1)} disabled={index === frames.length - 1} className={iconButtonClass} title="Move down">
+                          <ChevronDownIcon className="w-3.5 h-3.5" />
+                        </button>
+                        <button onClick={() => onGenerate(frame.id)} disabled={generating} className={iconButtonClass} title="Generate this frame again">
+                          <RefreshIcon className="w-3.5 h-3.5" />
+                        </button>
+                        <button onClick={() => onDeleteFrame(frame.id)} disabled={generating || frames.length === 1} className={iconButtonClass} title="Delete frame">
+                          <TrashIcon className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    </div>
+                    <input
+                      value={frame.note}
+                      placeholder="Note for this frame (optional)"
+                      onChange={(e) => onChange(updateFrame(storyboard, frame.id, { note: e.target.value }))}
+                      className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-[11px] focus:outline-none focus:ring-1 focus:ring-yellow-500 placeholder-zinc-600"
+                    />
+                    {frame.error && <div className="text-[10px] text-red-400/80 line-clamp-2" title={frame.error}>{frame.error}</div>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="p-3 border-t border-zinc-800 flex gap-2">
+            <button onClick={() => onAddFrame(false)} disabled={generating} className={`${actionClass} flex-1 justify-center`}>
+              <PlusIcon className="w-3.5 h-3.5" /> Blank frame
+            </button>
+            <button onClick={() => onAddFrame(true)} disabled={generating} className={`${actionClass} flex-1 justify-center`}>
+              <CopyIcon className="w-3.5 h-3.5" /> Duplicate frame
+            </button>
+            <button
+              onClick={() => confirm("Discard the storyboard and all its frames?") && onDiscard()}
+              disabled={generating}
+              className={actionClass}
+              title="Discard storyboard"
+            >
+              <TrashIcon className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StoryboardPanel;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { Handle, TransformedImage } from '../utils/transform';
+import { CropIcon, CheckIcon, CloseIcon } from './Icons';
+
+export type TransformMode = 'move' | 'resize' | 'crop' | 'rotate';
+
+interface TransformOverlayProps {
+  object: TransformedImage;
+  /** Current pan/zoom of the canvas, to place the frame in screen pixels. */
+  view: { x: number; y: number; zoom: number };
+  cropping: boolean;
+  onHandlePointerDown: (event: React.PointerEvent, mode: TransformMode, handle?: Handle) => void;
+  onToggleCrop: () => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const HANDLES: Handle[] = [
+  { hx: -1, hy: -1 }, { hx: 0, hy: -1 }, { hx: 1, hy: -1 },
+  { hx: -1, hy: 0 }, { hx: 1, hy: 0 },
+  { hx: -1, hy: 1 }, { hx: 0, hy: 1 }, { hx: 1, hy: 1 },
+];
+
+// Resize cursors for the unrotated frame; good enough for small rotations
+const handleCursor = ({ hx, hy }: Handle) => {
+  if (hx === 0) return 'ns-resize';
+  if (hy === 0) return 'ew-resize';
+  return hx === hy ? 'nwse-resize' : 'nesw-resize';
+};
+
+/** Frame with move/scale/rotate/crop handles drawn over a floating image. */
+const TransformOverlay: React.FC<TransformOverlayProps> = ({
+  object,
+  view,
+  cropping,
+  onHandlePointerDown,
+  onToggleCrop,
+  onApply,
+  onCancel,
+}) => {
+  const width = object.width * view.zoom;
+  const height = object.height * view.zoom;
+
+  return (
+    <>
+      <div
+        className="absolute cursor-move"
+        style={{
+          left: view.x + object.cx * view.zoom,
+          top: view.y + object.cy * view.zoom,
+          width,
+          height,
+          transform: `translate(-50%, -50%) rotate(${object.rotation}rad)`,
+          outline: `1px ${cropping ? 'dashed' : 'solid'} #eab308`,
+        }}
+        onPointerDown={(e) => onHandlePointerDown(e, 'move')}
+      >
+        {HANDLES.map((handle) => (
+          <div
+            key={`${handle.hx},${handle.hy}`}
+            className={`absolute w-3 h-3 border border-yellow-500 ${cropping ? 'bg-yellow-500' : 'bg-white'}`}
+            style={{
+              left: `${(handle.hx + 1) * 50}%`,
+              top: `${(handle.hy + 1) * 50}%`,
+              transform: 'translate(-50%, -50%)',
+              cursor: handleCursor(handle),
+            }}
+            onPointerDown={(e) => onHandlePointerDown(e, cropping ? 'crop' : 'resize', handle)}
+          />
+        ))}
+        {!cropping && (
+          <>
+            <div className="absolute left-1/2 -top-6 w-px h-6 bg-yellow-500 pointer-events-none" />
+            <div
+              className="absolute left-1/2 -top-8 w-3.5 h-3.5 -translate-x-1/2 rounded-full border border-yellow-500 bg-white cursor-grab"
+              title="Rotate (Shift snaps to 15°)"
+              onPointerDown={(e) => onHandlePointerDown(e, 'rotate')}
+            />
+          </>
+        )}
+      </div>
+
+      <div
+        className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-zinc-900/80 backdrop-blur px-1.5 py-1 rounded-full text-xs text-zinc-300 border border-zinc-700/50"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onToggleCrop}
+          className={`flex items-center gap-1 px-2 h-6 rounded-full transition-colors ${cropping ? 'bg-zinc-700 text-yellow-400' : 'hover:bg-zinc-700 hover:text-white'}`}
+          title="Crop"
+        >
+          <CropIcon className="w-3.5 h-3.5" />
+          Crop
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 px-2 h-6 rounded-full hover:bg-zinc-700 hover:text-white"
+          title="Cancel (Esc)"
+        >
+          <CloseIcon className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={onApply}
+          className="flex items-center gap-1 px-2 h-6 rounded-full text-yellow-400 hover:bg-zinc-700"
+          title="Apply (Enter)"
+        >
+          <CheckIcon className="w-3.5 h-3.5" />
+          Apply
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default TransformOverlay;
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { Project } from '../services/projectFile';
+import { writeAutosave } from '../services/autosave';
+
+interface AutosaveOptions {
+  /** Quiet period after the last change before a snapshot is taken. */
+  delay?: number;
+  /** Snapshots are skipped while false (e.g. while asking whether to restore a session). */
+  enabled?: boolean;
+}
+
+// Serializing every layer is expensive, so wait for the browser to be idle
+const runWhenIdle = (fn: () => void) => {
+  if ('requestIdleCallback' in window) {
+    window.requestIdleCallback(fn, { timeout: 2000 });
+  } else {
+    setTimeout(fn, 0);
+  }
+};
+
+/**
+ * Debounced autosave. Returns a `schedule` function to call on every change; the
+ * snapshot itself is built later, off the drawing hot path.
+ */
+export function useAutosave(buildProject: () => Project | null, { delay = 1500, enabled = true }: AutosaveOptions = {}) {
+  const timer = useRef<number | null>(null);
+  const buildRef = useRef(buildProject);
+  const enabledRef = useRef(enabled);
+  buildRef.current = buildProject;
+  enabledRef.current = enabled;
+
+  useEffect(() => () => {
+    if (timer.current !== null) clearTimeout(timer.current);
+  }, []);
+
+  return useCallback(() => {
+    if (!enabledRef.current) return;
+    if (timer.current !== null) clearTimeout(timer.current);
+    timer.current = window.setTimeout(() => {
+      timer.current = null;
+      runWhenIdle(() => {
+        if (!enabledRef.current) return;
+        const project = buildRef.current();
+        if (!project) return;
+        writeAutosave(project).catch(err => console.warn("Autosave failed:", err));
+      });
+    }, delay);
+  }, [delay]);
+}
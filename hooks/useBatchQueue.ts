@@ -0,0 +1,195 @@
+import { useEffect, useRef, useState } from 'react';
+import { BatchItem, BatchJob, clearBatch, loadBatch, saveBatchItem, saveBatchJob } from '../services/batchStore';
+import { generateImageFromSketch } from '../services/geminiService';
+import { describeError } from '../services/errors';
+import { ProviderSettings } from '../services/providers';
+import { dataURLToBlob, decodeImageFile, downloadURL, extensionForMimeType, imageFileType, isImageFile } from '../utils/image';
+import { createZip } from '../utils/zip';
+
+export interface BatchOptions {
+  prompt: string;
+  presetName?: string;
+  systemInstruction?: string;
+  settings: ProviderSettings;
+  concurrency: number;
+}
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+const warn = (err: unknown) => console.warn("Could not persist the batch queue:", err);
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || 'image';
+
+/**
+ * Runs the same prompt over many files with bounded concurrency. State is mirrored to
+ * IndexedDB on every change, so a reload restores the queue (paused, so nothing is
+ * spent without asking) and items that were in flight go back to the queue.
+ */
+export function useBatchQueue() {
+  const [job, setJobState] = useState<BatchJob | null>(null);
+  const [items, setItemsState] = useState<BatchItem[]>([]);
+  // Workers outlive renders, so they read and write through refs
+  const jobRef = useRef<BatchJob | null>(null);
+  const itemsRef = useRef<BatchItem[]>([]);
+  const running = useRef(new Map<string, AbortController>());
+
+  const setJob = (next: BatchJob | null) => {
+    jobRef.current = next;
+    setJobState(next);
+    if (next) saveBatchJob(next).catch(warn);
+  };
+
+  const setItems = (next: BatchItem[]) => {
+    itemsRef.current = next;
+    setItemsState(next);
+  };
+
+  const patchItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems(itemsRef.current.map(item => item.id === id ? { ...item, ...patch } : item));
+    const item = itemsRef.current.find(i => i.id === id);
+    if (item) saveBatchItem(item).catch(warn);
+  };
+
+  const runItem = async (item: BatchItem) => {
+    const current = jobRef.current;
+    if (!current) return;
+    const controller = new AbortController();
+    running.current.set(item.id, controller);
+    patchItem(item.id, { status: 'running', error: undefined, attempts: item.attempts + 1 });
+    try {
+      // Same path as the canvas: decoded (EXIF, HEIC, SVG) and sent as PNG
+      const canvas = await decodeImageFile(item.source, item.type);
+      const result = await generateImageFromSketch(current.prompt, canvas.toDataURL('image/png').split(',')[1], {
+        settings: current.settings,
+        systemInstruction: current.systemInstruction,
+        signal: controller.signal,
+      });
+      patchItem(item.id, { status: 'done', result: await dataURLToBlob(result.images[0]) });
+    } catch (err) {
+      // Cleared while in flight: the item is gone, nothing to record
+      if (!itemsRef.current.some(i => i.id === item.id)) return;
+      patchItem(item.id, { status: 'error', error: describeError(err) });
+    } finally {
+      running.current.delete(item.id);
+      pump();
+    }
+  };
+
+  // Starts queued items until the concurrency limit is reached
+  function pump() {
+    const current = jobRef.current;
+    if (!current || current.paused) return;
+    const free = current.concurrency - running.current.size;
+    itemsRef.current
+      .filter(item => item.status === 'queued' && !running.current.has(item.id))
+      .slice(0, Math.max(0, free))
+      .forEach(runItem);
+  }
+
+  const abortAll = () => {
+    running.current.forEach(controller => controller.abort());
+    running.current.clear();
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadBatch()
+      .then((saved) => {
+        if (!saved || cancelled) return;
+        const restored = saved.items.map((item): BatchItem => item.status === 'running' ? { ...item, status: 'queued' } : item);
+        setItems(restored);
+        setJob({ ...saved.job, paused: saved.job.paused || restored.some(item => item.status === 'queued') });
+      })
+      .catch(err => console.warn("Could not restore the batch queue:", err));
+    return () => {
+      cancelled = true;
+      abortAll();
+    };
+  }, []);
+
+  /** Replaces any existing batch with these files and starts it. Non-image files are skipped. */
+  const start = async (files: File[], options: BatchOptions) => {
+    abortAll();
+    await clearBatch().catch(warn);
+    const createdAt = Date.now();
+    const next = files.filter(isImageFile).map((file, index): BatchItem => ({
+      id: `${createdAt.toString(36)}-${index}`,
+      index,
+      fileName: file.name,
+      type: imageFileType(file),
+      source: file,
+      status: 'queued',
+      attempts: 0,
+    }));
+    setItems(next);
+    setJob({ id: 'current', createdAt, paused: false, ...options, concurrency: Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, options.concurrency)) });
+    await Promise.all(next.map(item => saveBatchItem(item))).catch(warn);
+    pump();
+  };
+
+  // Pausing lets requests already in flight finish; only new ones wait
+  const pause = () => {
+    if (jobRef.current) setJob({ ...jobRef.current, paused: true });
+  };
+
+  const resume = () => {
+    if (!jobRef.current) return;
+    setJob({ ...jobRef.current, paused: false });
+    pump();
+  };
+
+  const setConcurrency = (concurrency: number) => {
+    if (!jobRef.current) return;
+    setJob({ ...jobRef.current, concurrency });
+    pump();
+  };
+
+  const retryFailed = () => {
+    itemsRef.current.filter(item => item.status === 'error').forEach(item => patchItem(item.id, { status: 'queued', error: undefined }));
+    pump();
+  };
+
+  const clear = async () => {
+    abortAll();
+    setItems([]);
+    setJob(null);
+    await clearBatch().catch(warn);
+  };
+
+  /** Zip with every result plus a manifest.json describing each source file. */
+  const downloadZip = async () => {
+    const current = jobRef.current;
+    if (!current) return;
+    const pad = (n: number) => String(n).padStart(String(itemsRef.current.length).length, '0');
+    const entries = itemsRef.current.map(item => ({
+      item,
+      path: item.result ? `results/${pad(item.index + 1)}-${baseName(item.fileName)}.${extensionForMimeType(item.result.type)}` : null,
+    }));
+    const manifest = {
+      createdAt: new Date(current.createdAt).toISOString(),
+      prompt: current.prompt,
+      preset: current.presetName ?? null,
+      provider: current.settings.providerId,
+      model: current.settings.model,
+      items: entries.map(({ item, path }) => ({
+        source: item.fileName,
+        result: path,
+        prompt: current.prompt,
+        model: current.settings.model,
+        status: item.status,
+        ...(item.error ? { error: item.error } : {}),
+      })),
+    };
+    const zip = await createZip([
+      { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+      ...entries.filter(e => e.path).map(({ item, path }) => ({ name: path!, data: item.result! })),
+    ]);
+    const url = URL.createObjectURL(zip);
+    downloadURL(url, `sketch-to-life-batch-${new Date(current.createdAt).toISOString().slice(0, 10)}.zip`);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return { job, items, start, pause, resume, setConcurrency, retryFailed, clear, downloadZip };
+}
+
+export type BatchQueue = ReturnType<typeof useBatchQueue>;
@@ -0,0 +1,127 @@
+// Tiny local proxy that keeps the Gemini API key on the server, so it never reaches the
+// browser. Run it with `npm run proxy` next to `npm run dev`; Vite forwards /api here.
+//
+//   GET  /api/health    -> { ok, hasKey }
+//   POST /api/generate  -> body { model, contents, config }, answers with the raw Gemini response
+//
+// Only requests addressed to localhost are served, and generate only takes JSON bodies from a
+// localhost origin. Otherwise any web page open in the browser could post to it (a text/plain
+// POST needs no preflight) and spend the key.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import { GoogleGenAI } from '@google/genai';
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+const MODEL_PATTERN = /^[\w.-]+$/;
+
+// Same .env.local the app used before keys moved to runtime
+const readEnvFile = (file) => {
+  try {
+    return Object.fromEntries(fs.readFileSync(file, 'utf8')
+      .split('\n')
+      .map(line => line.match(/^\s*([\w.]+)\s*=\s*(.*?)\s*$/))
+      .filter(Boolean)
+      .map(([, name, value]) => [name, value.replace(/^(['"])(.*)\1$/, '$2')]));
+  } catch {
+    return {};
+  }
+};
+
+const apiKey = process.env.GEMINI_API_KEY || readEnvFile('.env.local').GEMINI_API_KEY;
+const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+const isLocalHost = (host) => {
+  try {
+    return LOCAL_HOSTNAMES.includes(new URL(`http://${host}`).hostname);
+  } catch {
+    return false;
+  }
+};
+
+const isLocalOrigin = (origin) => {
+  try {
+    const url = new URL(origin);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && LOCAL_HOSTNAMES.includes(url.hostname);
+  } catch {
+    return false;
+  }
+};
+
+// Checks the Host header (against DNS rebinding) and, when the browser sends one, the Origin
+const isLocalRequest = (req) =>
+  isLocalHost(req.headers.host ?? '') && (req.headers.origin === undefined || isLocalOrigin(req.headers.origin));
+
+const isJson = (req) => (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase() === 'application/json';
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', (chunk) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(Object.assign(new Error("Request body is too large."), { status: 413 }));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const handleGenerate = async (req, res) => {
+  if (!isJson(req)) return send(res, 415, { error: { message: "Expected a JSON body (Content-Type: application/json)." } });
+  if (!ai) return send(res, 401, { error: { message: "The proxy has no GEMINI_API_KEY configured." } });
+
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (error) {
+    return send(res, error.status ?? 400, { error: { message: error.status ? error.message : "Request body isn't valid JSON." } });
+  }
+  const { model, contents, config = {} } = body ?? {};
+  if (typeof model !== 'string' || !MODEL_PATTERN.test(model) || !contents) {
+    return send(res, 400, { error: { message: "Expected { model, contents, config }." } });
+  }
+
+  // Stop the upstream call when the browser cancels or times out
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents,
+      config: {
+        ...(typeof config.systemInstruction === 'string' ? { systemInstruction: config.systemInstruction } : {}),
+        abortSignal: controller.signal,
+      },
+    });
+    send(res, 200, { candidates: response.candidates, promptFeedback: response.promptFeedback });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    const status = typeof error?.status === 'number' ? error.status : 502;
+    send(res, status, { error: { message: error?.message || "Gemini request failed." } });
+  }
+};
+
+const server = http.createServer((req, res) => {
+  if (!isLocalRequest(req)) return send(res, 403, { error: { message: "Only requests from localhost are allowed." } });
+  if (req.method === 'GET' && req.url === '/api/health') return send(res, 200, { ok: true, hasKey: !!ai });
+  if (req.method === 'POST' && req.url === '/api/generate') return handleGenerate(req, res);
+  send(res, 404, { error: { message: "Not found." } });
+});
+
+// Loopback only, on top of the header checks above: anyone who can reach this can spend the key
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Gemini proxy listening on http://127.0.0.1:${PORT}${ai ? '' : ' (no GEMINI_API_KEY set!)'}`);
+});
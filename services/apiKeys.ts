@@ -0,0 +1,111 @@
+import { GoogleGenAI } from "@google/genai";
+import { toGenerationError } from './errors';
+
+// Runtime storage for the Gemini API key. It's entered in the settings dialog and kept in
+// localStorage, either as-is or encrypted with a passphrase (PBKDF2 + AES-GCM). Once
+// unlocked it stays in memory for the rest of the session and is never written in clear.
+
+export type StoredKey =
+  | { format: 'plain'; key: string }
+  | { format: 'aes-gcm'; salt: string; iv: string; data: string };
+
+/** ready: usable now; locked: stored encrypted, needs the passphrase; missing: nothing stored. */
+export type KeyStatus = 'ready' | 'locked' | 'missing';
+
+const STORAGE_KEY = 'sketch-to-life:api-key';
+const PBKDF2_ITERATIONS = 250_000;
+
+let sessionKey: string | null = null;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (data: string) => Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export function loadStoredKey(): StoredKey | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    if (stored?.format === 'aes-gcm' && stored.salt && stored.iv && stored.data) return stored;
+    if (stored?.format === 'plain' && typeof stored.key === 'string' && stored.key) return stored;
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/** The key to use for requests, or null until one is entered or unlocked. */
+export function getApiKey(): string | null {
+  if (!sessionKey) {
+    const stored = loadStoredKey();
+    if (stored?.format === 'plain') sessionKey = stored.key;
+  }
+  return sessionKey;
+}
+
+export const getKeyStatus = (): KeyStatus => getApiKey() ? 'ready' : loadStoredKey() ? 'locked' : 'missing';
+
+/** Stores the key, encrypted when a passphrase is given, and makes it the session key. */
+export async function saveApiKey(key: string, passphrase?: string) {
+  let stored: StoredKey = { format: 'plain', key };
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await deriveKey(passphrase, salt), new TextEncoder().encode(key));
+    stored = { format: 'aes-gcm', salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(cipher)) };
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the key still works for this session
+  }
+  sessionKey = key;
+}
+
+/** Decrypts the stored key. Throws if the passphrase is wrong. */
+export async function unlockApiKey(passphrase: string) {
+  const stored = loadStoredKey();
+  if (!stored) throw new Error("No API key is stored.");
+  if (stored.format === 'plain') {
+    sessionKey = stored.key;
+    return;
+  }
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+      await deriveKey(passphrase, fromBase64(stored.salt)),
+      fromBase64(stored.data)
+    );
+    sessionKey = new TextDecoder().decode(plain);
+  } catch {
+    // AES-GCM fails authentication on a wrong key, so this is the wrong-passphrase case
+    throw new Error("Wrong passphrase.");
+  }
+}
+
+export function forgetApiKey() {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored, nothing to remove
+  }
+  sessionKey = null;
+}
+
+/** Cheap authenticated call to check a key before saving it. Throws a GenerationError if rejected. */
+export async function validateApiKey(key: string) {
+  try {
+    await new GoogleGenAI({ apiKey: key }).models.list({ config: { pageSize: 1 } });
+  } catch (error) {
+    throw toGenerationError(error);
+  }
+}
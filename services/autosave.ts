@@ -0,0 +1,65 @@
+// Session autosave for crash recovery.
+// Snapshots reuse the .sketchlife project format, so restoring a session goes through
+// the same validation and migrations as opening a file.
+import { AUTOSAVE_STORE, runRequest } from './db';
+import { Project, parseProject, serializeProject } from './projectFile';
+
+export interface AutosaveSnapshot {
+  id: string;
+  savedAt: number;
+  /** Serialized project. */
+  data: string;
+  /** True once the user saved the project explicitly, so there is nothing to recover. */
+  clean: boolean;
+}
+
+/** How many snapshots are kept around. */
+const MAX_SNAPSHOTS = 3;
+
+const run = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) =>
+  runRequest(AUTOSAVE_STORE, mode, fn);
+
+const listSnapshots = async () => {
+  const snapshots = await run<AutosaveSnapshot[]>('readonly', store => store.index('savedAt').getAll());
+  return snapshots.reverse();
+};
+
+export async function writeAutosave(project: Project) {
+  const snapshot: AutosaveSnapshot = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    savedAt: Date.now(),
+    data: serializeProject(project),
+    clean: false,
+  };
+  await run('readwrite', store => store.put(snapshot));
+
+  // Drop everything beyond the newest few
+  const stale = (await listSnapshots()).slice(MAX_SNAPSHOTS);
+  await Promise.all(stale.map(s => run('readwrite', store => store.delete(s.id))));
+}
+
+/** Flags the newest snapshot as saved, e.g. after the project was written to a file. */
+export async function markAutosaveClean() {
+  const [latest] = await listSnapshots();
+  if (latest && !latest.clean) await run('readwrite', store => store.put({ ...latest, clean: true }));
+}
+
+/**
+ * The newest readable snapshot holding unsaved work. Older snapshots act as a
+ * fallback in case the newest one was cut short by the crash.
+ */
+export async function loadRecoverableSession(): Promise<{ savedAt: number; project: Project } | null> {
+  for (const snapshot of await listSnapshots()) {
+    if (snapshot.clean) return null;
+    try {
+      return { savedAt: snapshot.savedAt, project: parseProject(snapshot.data) };
+    } catch (err) {
+      console.warn("Skipping unreadable autosave:", err);
+    }
+  }
+  return null;
+}
+
+export async function clearAutosaves() {
+  await run('readwrite', store => store.clear());
+}
@@ -0,0 +1,53 @@
+// The batch queue, persisted in IndexedDB so a reload mid-batch picks up where it left off.
+// There is one batch at a time: a job record with the shared settings, plus one record per
+// file holding the source and, once finished, the result as Blobs.
+import { BATCH_ITEMS_STORE, BATCH_JOB_STORE, runRequest } from './db';
+import { ProviderSettings } from './providers';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'error';
+
+export interface BatchJob {
+  id: 'current';
+  createdAt: number;
+  /** Final prompt, with the preset already filled in. */
+  prompt: string;
+  /** Preset the prompt came from, for the manifest. */
+  presetName?: string;
+  systemInstruction?: string;
+  settings: ProviderSettings;
+  /** Most requests in flight at once. */
+  concurrency: number;
+  paused: boolean;
+}
+
+export interface BatchItem {
+  id: string;
+  /** Position in the queue, also used to number the files in the zip. */
+  index: number;
+  fileName: string;
+  /** MIME type of the source, which File.type doesn't always know (HEIC). */
+  type: string;
+  source: Blob;
+  status: BatchItemStatus;
+  result?: Blob;
+  error?: string;
+  attempts: number;
+}
+
+const JOB_ID = 'current';
+
+export async function loadBatch(): Promise<{ job: BatchJob; items: BatchItem[] } | null> {
+  const job = await runRequest<BatchJob | undefined>(BATCH_JOB_STORE, 'readonly', store => store.get(JOB_ID));
+  if (!job) return null;
+  const items = await runRequest<BatchItem[]>(BATCH_ITEMS_STORE, 'readonly', store => store.index('index').getAll());
+  return { job, items };
+}
+
+export const saveBatchJob = (job: BatchJob) => runRequest(BATCH_JOB_STORE, 'readwrite', store => store.put({ ...job, id: JOB_ID }));
+
+export const saveBatchItem = (item: BatchItem) => runRequest(BATCH_ITEMS_STORE, 'readwrite', store => store.put(item));
+
+export async function clearBatch() {
+  await runRequest(BATCH_ITEMS_STORE, 'readwrite', store => store.clear());
+  await runRequest(BATCH_JOB_STORE, 'readwrite', store => store.clear());
+}
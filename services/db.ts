@@ -0,0 +1,57 @@
+// Shared IndexedDB connection for everything the app persists locally.
+// Bump DB_VERSION and extend `upgrade` when adding a store.
+
+const DB_NAME = 'sketch-to-life';
+const DB_VERSION = 3;
+
+export const HISTORY_STORE = 'history';
+export const AUTOSAVE_STORE = 'autosave';
+export const BATCH_JOB_STORE = 'batch-job';
+export const BATCH_ITEMS_STORE = 'batch-items';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+    const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    store.createIndex('createdAt', 'createdAt');
+  }
+  if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) {
+    const store = db.createObjectStore(AUTOSAVE_STORE, { keyPath: 'id' });
+    store.createIndex('savedAt', 'savedAt');
+  }
+  if (!db.objectStoreNames.contains(BATCH_JOB_STORE)) {
+    db.createObjectStore(BATCH_JOB_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(BATCH_ITEMS_STORE)) {
+    const store = db.createObjectStore(BATCH_ITEMS_STORE, { keyPath: 'id' });
+    store.createIndex('index', 'index');
+  }
+};
+
+export const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Could not open the local database."));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single request in a transaction and resolves with its result
+export const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? request.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Database transaction was aborted."));
+  });
+};
@@ -0,0 +1,150 @@
+import type { SafetyRating } from './providers/types';
+
+// Typed failures for generation requests. Providers throw (or get mapped to) one of these so
+// the UI can tell "fix your key" from "try again later" and show what to do next.
+
+export type GenerationErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'no-image'
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  /** Whether repeating the same request might succeed. */
+  readonly retryable: boolean;
+  /** What the user can do about it, shown under the message. */
+  readonly hint?: string;
+  readonly status?: number;
+
+  constructor(kind: GenerationErrorKind, message: string, options: { retryable?: boolean; hint?: string; status?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.hint = options.hint;
+    this.status = options.status;
+  }
+}
+
+/** Missing, invalid or unauthorized API key. */
+export class AuthError extends GenerationError {
+  constructor(message = "The API key is missing or was rejected.", options: { status?: number; cause?: unknown } = {}) {
+    super('auth', message, { ...options, hint: "Check the API key for the selected provider." });
+    this.name = 'AuthError';
+  }
+}
+
+/** Rate limit or exhausted quota (HTTP 429). */
+export class QuotaError extends GenerationError {
+  /** Server-suggested wait before retrying, when it sent one. */
+  readonly retryAfterMs?: number;
+
+  constructor(message = "Rate limit or quota exceeded.", options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super('quota', message, { ...options, retryable: true, hint: "Wait a minute and try again, or check your plan's quota." });
+    this.name = 'QuotaError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/** The request or the result was blocked by the provider's safety filters. */
+export class SafetyError extends GenerationError {
+  readonly reason?: string;
+  /** Per-category ratings, when the provider sent them; the blocked ones are flagged. */
+  readonly ratings: SafetyRating[];
+  /** Anything the model said alongside the block. */
+  readonly modelText?: string;
+
+  constructor(reason?: string, options: { ratings?: SafetyRating[]; modelText?: string; cause?: unknown } = {}) {
+    const blocked = options.ratings?.filter(r => r.blocked).map(r => formatSafetyCategory(r.category)) ?? [];
+    const detail = blocked.length > 0 ? blocked.join(', ') : reason;
+    super('safety', `The request was blocked by safety filters${detail ? ` (${detail})` : ''}.`, {
+      cause: options.cause,
+      hint: "Rephrase the instruction or change the sketch and try again.",
+    });
+    this.name = 'SafetyError';
+    this.reason = reason;
+    this.ratings = options.ratings ?? [];
+    this.modelText = options.modelText;
+  }
+}
+
+/** HARM_CATEGORY_SEXUALLY_EXPLICIT -> "sexually explicit" */
+export const formatSafetyCategory = (category: string) =>
+  category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+/** The model answered, but without an image. Its text usually explains why. */
+export class NoImageError extends GenerationError {
+  readonly modelText?: string;
+
+  constructor(modelText?: string) {
+    super('no-image', modelText ? `The model replied without an image: "${modelText}"` : "No image data found in the response.", {
+      retryable: !modelText,
+      hint: "Try a more explicit instruction, e.g. start with 'Generate an image of…'.",
+    });
+    this.name = 'NoImageError';
+    this.modelText = modelText;
+  }
+}
+
+/** Couldn't reach the service, or it failed on its side (5xx). */
+export class NetworkError extends GenerationError {
+  constructor(message = "Could not reach the image service.", options: { status?: number; cause?: unknown } = {}) {
+    super('network', message, { ...options, retryable: true, hint: "Check your connection or try again shortly." });
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends GenerationError {
+  constructor(timeoutMs: number) {
+    super('timeout', `The request took longer than ${Math.round(timeoutMs / 1000)}s.`, {
+      retryable: true,
+      hint: "Try again, or raise the timeout in the model settings.",
+    });
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends GenerationError {
+  constructor() {
+    super('cancelled', "Cancelled.");
+    this.name = 'CancelledError';
+  }
+}
+
+/** Maps an HTTP status from any provider onto the hierarchy. */
+export function errorFromStatus(status: number, message: string, retryAfterMs?: number): GenerationError {
+  if (status === 401 || status === 403) return new AuthError(message, { status });
+  if (status === 429) return new QuotaError(message, { status, retryAfterMs });
+  if (status >= 500 || status === 408) return new NetworkError(message, { status });
+  // Gemini reports a bad key as a plain 400
+  if (/api key/i.test(message)) return new AuthError(message, { status });
+  return new GenerationError('unknown', message, { status });
+}
+
+/** Normalizes anything thrown during a request into a GenerationError. */
+export function toGenerationError(error: unknown): GenerationError {
+  if (error instanceof GenerationError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') return new CancelledError();
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number'
+    ? error.status
+    : undefined;
+  if (status) return errorFromStatus(status, message);
+  // fetch rejects with a TypeError when the network is down or CORS blocks the request
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new NetworkError(undefined, { cause: error });
+  }
+  return new GenerationError('unknown', message || "Something went wrong during generation.", { cause: error });
+}
+
+/** Message plus the suggested action, for toasts and result slots. */
+export function describeError(error: unknown): string {
+  const err = toGenerationError(error);
+  return err.hint ? `${err.message} ${err.hint}` : err.message;
+}
@@ -1,55 +1,226 @@
-import { GoogleGenAI } from "@google/genai";
+import {
+  createProvider,
+  loadProviderSettings,
+  ConversationTurn,
+  EditRequest,
+  GenerationResult,
+  ImageProvider,
+  ProviderCapabilities,
+  ProviderSettings,
+  ReferenceInput,
+} from './providers';
+import { compositeWithMask } from '../utils/mask';
+import { fitImageForUpload, toDataURL } from '../utils/image';
+import { GenerationError, toGenerationError } from './errors';
+import { withRetry } from './retry';
 
-// Using the mapped model name for 'nano banana' / 'gemini flash image'
-const MODEL_NAME = 'gemini-2.5-flash-image';
+export const DEFAULT_PROMPT = "Enhance this image.";
 
-export async function generateImageFromSketch(prompt: string, imageBase64: string): Promise<string> {
-  // 1. Initialize the client
-  // API Key is guaranteed to be in process.env.API_KEY per instructions
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/** Most reference images the app lets you attach, whatever the provider allows. */
+export const MAX_REFERENCE_IMAGES = 4;
+/** Upper bound on the image data in one request; inline payloads beyond ~20 MB get rejected. */
+export const MAX_REQUEST_BYTES = 15 * 1024 * 1024;
+
+/** Decoded size of a base64 payload. */
+export const base64Size = (data: string) => Math.floor(data.length * 3 / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export interface GenerateOptions {
+  /** Provider/model to use. Defaults to the persisted selection. */
+  settings?: ProviderSettings;
+  /** Base64 black/white PNG mask (white = area to edit). Pixels outside it are kept from the input. */
+  mask?: string;
+  /** Extra images (style, character, product...) sent after the sketch with their role labels. */
+  references?: ReferenceInput[];
+  /** Mapped to the model's system instruction where the provider has one. */
+  systemInstruction?: string;
+  /** Aborts the request, including any pending retry. */
+  signal?: AbortSignal;
+  /** Per-attempt timeout. Defaults to the provider settings. */
+  timeoutMs?: number;
+  /** Retries for rate limits, timeouts and transient network failures. */
+  retries?: number;
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void;
+}
+
+export type RefineOptions = Omit<GenerateOptions, 'mask' | 'references'>;
+
+// Fits an image to what the provider takes: downscaled to its max resolution, converted
+// if it doesn't accept the format, and JPEG when the settings ask for smaller uploads
+const imageFitter = ({ capabilities: { maxResolution, supportedMimeTypes } }: ImageProvider, settings: ProviderSettings) =>
+  (data: string, mimeType: string) => fitImageForUpload(data, mimeType, {
+    maxSize: maxResolution,
+    targetType: settings.sendJpeg ? 'image/jpeg' : supportedMimeTypes.includes(mimeType) ? mimeType : 'image/png',
+  });
+
+// Sends with timeout/retry; every failure comes out as a GenerationError
+const send = async (
+  provider: ImageProvider,
+  request: Omit<EditRequest, 'signal'>,
+  { signal, timeoutMs, retries, onRetry }: Pick<GenerateOptions, 'signal' | 'timeoutMs' | 'retries' | 'onRetry'>
+) => withRetry((attemptSignal) => provider.edit({ ...request, signal: attemptSignal }), { signal, timeoutMs, retries, onRetry });
+
+const rethrow = (error: unknown): never => {
+  const err = toGenerationError(error);
+  if (err.kind !== 'cancelled') console.error("Error generating image:", error);
+  throw err;
+};
+
+export async function generateImageFromSketch(
+  prompt: string,
+  imageBase64: string,
+  {
+    settings = loadProviderSettings(),
+    mask,
+    references = [],
+    systemInstruction,
+    signal,
+    timeoutMs = settings.timeoutSeconds * 1000,
+    retries,
+    onRetry,
+  }: GenerateOptions = {}
+): Promise<GenerationResult> {
+  // 1. Resolve the selected backend (Gemini, HTTP endpoint or the offline mock)
+  const provider = createProvider(settings);
 
   try {
-    // 2. Prepare the content parts
-    // The model accepts text and images to guide generation/editing.
-    const parts = [
-      {
-        text: prompt || "Enhance this image.",
-      },
-      {
-        inlineData: {
-          mimeType: 'image/png',
-          data: imageBase64,
-        },
-      },
-    ];
-
-    // 3. Call generateContent
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: parts,
-      },
-      // Config specific to image tasks if needed, though defaults work well for general 'render this' tasks.
-      config: {
-        // systemInstruction: "You are an expert artist. Transform the provided sketch into a finished masterpiece.",
-      }
-    });
-
-    // 4. Extract the image from the response
-    // The response might contain text (if it failed to gen image or just chatted) or inlineData (the image).
-    if (response.candidates && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          const base64Data = part.inlineData.data;
-          return `data:image/png;base64,${base64Data}`;
-        }
-      }
+    // 2. Fit every image to what the provider takes
+    const { maxResolution, supportedMimeTypes } = provider.capabilities;
+    const fit = imageFitter(provider, settings);
+    const sketch = await fit(imageBase64, 'image/png');
+    if (!supportedMimeTypes.includes(sketch.mimeType)) {
+      throw new InputError(`${provider.name} does not accept ${sketch.mimeType} input.`);
     }
+    if (mask && !provider.capabilities.multiImageInput) {
+      throw new InputError(`${provider.name} does not support inpainting masks.`);
+    }
+    // Masks stay lossless; same size as the sketch, so they scale the same way
+    const fittedMask = mask ? await fitImageForUpload(mask, 'image/png', { maxSize: maxResolution }) : undefined;
+    const fittedReferences = await Promise.all(references.map(async (r) => ({ ...r, ...await fit(r.data, r.mimeType) })));
+    checkReferences(provider.name, provider.capabilities, fittedReferences, [sketch.data, ...(fittedMask ? [fittedMask.data] : [])]);
+
+    // 3. Send the sketch along with the instruction
+    const result = await send(provider, {
+      prompt: prompt || DEFAULT_PROMPT,
+      model: settings.model,
+      images: [sketch],
+      mask: fittedMask,
+      references: fittedReferences,
+      systemInstruction: systemInstruction?.trim() || undefined,
+    }, { signal, timeoutMs, retries, onRetry });
 
-    throw new Error("No image data found in the response.");
+    // 4. Models don't always respect the mask, so enforce it locally, at full resolution
+    if (mask) {
+      const base = toDataURL(imageBase64);
+      const maskURL = toDataURL(mask);
+      const images = await Promise.all(result.images.map(image => compositeWithMask(base, image, maskURL)));
+      return { ...result, images };
+    }
+    return result;
 
   } catch (error) {
-    console.error("Error generating image:", error);
-    throw error;
+    return rethrow(error);
+  }
+}
+
+/**
+ * Follow-up edit in a refinement session. `history` is the thread so far, oldest first;
+ * its last turn holds the image being refined. Providers with multi-turn support get the
+ * thread as conversation context, the others simply edit the latest result.
+ */
+export async function refineImage(
+  prompt: string,
+  history: ConversationTurn[],
+  {
+    settings = loadProviderSettings(),
+    systemInstruction,
+    signal,
+    timeoutMs = settings.timeoutSeconds * 1000,
+    retries,
+    onRetry,
+  }: RefineOptions = {}
+): Promise<GenerationResult> {
+  const provider = createProvider(settings);
+
+  try {
+    if (history.length === 0) throw new InputError("There is no earlier result to refine.");
+    const fit = imageFitter(provider, settings);
+    const fitted: ConversationTurn[] = await Promise.all(history.map(async (turn) => ({
+      ...turn,
+      images: await Promise.all(turn.images.map(image => fit(image.data, image.mimeType))),
+      result: await fit(turn.result.data, turn.result.mimeType),
+    })));
+
+    const latest = fitted[fitted.length - 1];
+    const request = provider.capabilities.multiTurn
+      ? { images: [], history: trimHistory(fitted) }
+      : { images: [latest.result] };
+
+    return await send(provider, {
+      prompt: prompt || DEFAULT_PROMPT,
+      model: settings.model,
+      ...request,
+      systemInstruction: systemInstruction?.trim() || undefined,
+    }, { signal, timeoutMs, retries, onRetry });
+
+  } catch (error) {
+    return rethrow(error);
+  }
+}
+
+// Long threads carry an image per turn; drop the oldest turns until the request fits
+const trimHistory = (history: ConversationTurn[]) => {
+  const turnBytes = (turn: ConversationTurn) =>
+    [turn.result, ...turn.images].reduce((sum, image) => sum + base64Size(image.data), 0);
+  const kept = [...history];
+  let bytes = kept.reduce((sum, turn) => sum + turnBytes(turn), 0);
+  while (kept.length > 1 && bytes > MAX_REQUEST_BYTES) {
+    bytes -= turnBytes(kept.shift()!);
+  }
+  return kept;
+};
+
+// Fails early with a message that says what to remove, instead of an opaque API error
+function checkReferences(
+  providerName: string,
+  { multiImageInput, maxInputImages, supportedMimeTypes }: ProviderCapabilities,
+  references: ReferenceInput[],
+  otherImages: string[]
+) {
+  if (references.length === 0) return;
+  if (!multiImageInput) {
+    throw new InputError(`${providerName} only accepts a single image; remove the reference images to continue.`);
+  }
+  if (references.length > MAX_REFERENCE_IMAGES) {
+    throw new InputError(`Too many reference images (${references.length}); the limit is ${MAX_REFERENCE_IMAGES}.`);
+  }
+  const total = otherImages.length + references.length;
+  if (total > maxInputImages) {
+    const allowed = Math.max(0, maxInputImages - otherImages.length);
+    throw new InputError(
+      `${providerName} accepts at most ${maxInputImages} images per request, including the sketch` +
+      `${otherImages.length > 1 ? ' and mask' : ''}. Remove ${total - maxInputImages} reference image(s) (${allowed} allowed).`
+    );
+  }
+  const unsupported = references.find(r => !supportedMimeTypes.includes(r.mimeType));
+  if (unsupported) {
+    throw new InputError(`${providerName} does not accept ${unsupported.mimeType} reference images.`);
+  }
+  const bytes = [...otherImages, ...references.map(r => r.data)].reduce((sum, data) => sum + base64Size(data), 0);
+  if (bytes > MAX_REQUEST_BYTES) {
+    throw new InputError(
+      `Images in this request add up to ${formatBytes(bytes)}, over the ${formatBytes(MAX_REQUEST_BYTES)} limit. ` +
+      `Remove or shrink some reference images.`
+    );
+  }
+}
+
+// Request doesn't fit the provider; retrying won't help
+class InputError extends GenerationError {
+  constructor(message: string) {
+    super('unknown', message);
+    this.name = 'InputError';
   }
-}
\ No newline at end of file
+}
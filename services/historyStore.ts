@@ -0,0 +1,61 @@
+// Persistent generation history, kept in IndexedDB so it survives reloads.
+// Images are stored as Blobs rather than data URLs to keep the footprint down.
+import { HISTORY_STORE, runRequest } from './db';
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  prompt: string;
+  providerId: string;
+  model: string;
+  /** The flattened sketch that was sent. */
+  sketch: Blob;
+  /** Inpainting mask that was sent with the sketch, if any. */
+  mask?: Blob;
+  result: Blob;
+}
+
+const run = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) =>
+  runRequest(HISTORY_STORE, mode, fn);
+
+export async function addHistoryEntry(entry: Omit<HistoryEntry, 'id' | 'createdAt'>): Promise<HistoryEntry> {
+  const record: HistoryEntry = {
+    ...entry,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: Date.now(),
+  };
+  await run('readwrite', store => store.put(record));
+  return record;
+}
+
+/** All entries, newest first, optionally filtered by a case-insensitive prompt search. */
+export async function listHistoryEntries(query = ''): Promise<HistoryEntry[]> {
+  const entries = await run<HistoryEntry[]>('readonly', store => store.index('createdAt').getAll());
+  const needle = query.trim().toLowerCase();
+  return entries
+    .filter(e => !needle || e.prompt.toLowerCase().includes(needle))
+    .reverse();
+}
+
+export async function deleteHistoryEntry(id: string) {
+  await run('readwrite', store => store.delete(id));
+}
+
+/** Removes the oldest entries. Returns how many were deleted. */
+export async function purgeOldestEntries(count: number): Promise<number> {
+  const keys = await run<IDBValidKey[]>('readonly', store => store.index('createdAt').getAllKeys(null, count));
+  await Promise.all(keys.map(key => run('readwrite', store => store.delete(key))));
+  return keys.length;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+/** Origin-wide storage usage, when the browser exposes it. */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
@@ -0,0 +1,186 @@
+// Exporting sketches and results: format, quality, target size, a side-by-side composite,
+// and (for PNG) the prompt and model embedded as text chunks so the file can be opened
+// again later with its prompt restored.
+import { createCanvas, extensionForMimeType, loadImage } from '../utils/image';
+import { addPngText, readPngText } from '../utils/pngText';
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+export type ExportContent = 'result' | 'sketch' | 'both' | 'side-by-side';
+
+export interface ExportSettings {
+  content: ExportContent;
+  format: ExportFormat;
+  /** 0..1, for JPEG and WebP. */
+  quality: number;
+  /** Target length of the longer side in pixels; null keeps the original size. */
+  size: number | null;
+  /** Embed prompt/model/time in PNG text chunks. */
+  metadata: boolean;
+}
+
+export interface ImageMetadata {
+  prompt: string;
+  model?: string;
+  providerId?: string;
+  createdAt: number;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  content: 'result',
+  format: 'image/png',
+  quality: 0.92,
+  size: null,
+  metadata: true,
+};
+
+/** PNG keyword holding our JSON metadata. The prompt also goes in the standard Description. */
+const METADATA_KEY = 'sketch-to-life';
+const METADATA_FORMAT = 'sketch-to-life-image';
+const METADATA_VERSION = 1;
+
+const STORAGE_KEY = 'sketch-to-life:export';
+
+// Gap between the two halves of a side-by-side composite
+const COMPOSITE_GAP = 16;
+
+const EXPORT_FORMATS: ExportFormat[] = ['image/png', 'image/jpeg', 'image/webp'];
+const EXPORT_CONTENTS: ExportContent[] = ['result', 'sketch', 'both', 'side-by-side'];
+
+const isExportFormat = (value: unknown): value is ExportFormat => EXPORT_FORMATS.some(f => f === value);
+const isExportContent = (value: unknown): value is ExportContent => EXPORT_CONTENTS.some(c => c === value);
+
+// Same ranges as the export dialog's quality slider and custom size input
+const isQuality = (value: unknown): value is number => typeof value === 'number' && value >= 0.1 && value <= 1;
+const isSize = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 16 && value <= 8192);
+
+export function loadExportSettings(): ExportSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_EXPORT_SETTINGS;
+    const data: unknown = JSON.parse(raw);
+    if (typeof data !== 'object' || data === null) return DEFAULT_EXPORT_SETTINGS;
+    const defaults = DEFAULT_EXPORT_SETTINGS;
+    return {
+      content: 'content' in data && isExportContent(data.content) ? data.content : defaults.content,
+      format: 'format' in data && isExportFormat(data.format) ? data.format : defaults.format,
+      quality: 'quality' in data && isQuality(data.quality) ? data.quality : defaults.quality,
+      size: 'size' in data && isSize(data.size) ? data.size : defaults.size,
+      metadata: 'metadata' in data && typeof data.metadata === 'boolean' ? data.metadata : defaults.metadata,
+    };
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+}
+
+export function saveExportSettings(settings: ExportSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the choice just won't persist
+  }
+}
+
+// Scales so the longer side is exactly `size` (up or down)
+const fitSize = (width: number, height: number, size: number | null) => {
+  if (!size) return { width, height };
+  const scale = size / Math.max(width, height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const drawImage = async (url: string, size: number | null) => {
+  const img = await loadImage(url);
+  const { width, height } = fitSize(img.width, img.height, size);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Sketch on the left, result on the right, both scaled to the same height
+const drawSideBySide = async (sketchUrl: string, resultUrl: string, size: number | null) => {
+  const [sketch, result] = await Promise.all([loadImage(sketchUrl), loadImage(resultUrl)]);
+  const height = Math.max(sketch.height, result.height);
+  const sketchWidth = sketch.width * height / sketch.height;
+  const resultWidth = result.width * height / result.height;
+  const full = { width: Math.round(sketchWidth + COMPOSITE_GAP + resultWidth), height };
+  const { width, height: outHeight } = fitSize(full.width, full.height, size);
+  const scale = outHeight / height;
+
+  const { canvas, ctx } = createCanvas(width, outHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, outHeight);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(sketch, 0, 0, sketchWidth * scale, outHeight);
+  ctx.drawImage(result, (sketchWidth + COMPOSITE_GAP) * scale, 0, resultWidth * scale, outHeight);
+  return canvas;
+};
+
+const encode = async (canvas: HTMLCanvasElement, { format, quality, metadata }: ExportSettings, meta: ImageMetadata) => {
+  if (format === 'image/jpeg') {
+    // JPEG has no alpha; flatten onto white instead of the browser's black
+    const { canvas: flat, ctx } = createCanvas(canvas.width, canvas.height);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, flat.width, flat.height);
+    ctx.drawImage(canvas, 0, 0);
+    canvas = flat;
+  }
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, format, quality));
+  if (!blob) throw new Error(`This browser can't encode ${format}.`);
+  if (format !== 'image/png' || !metadata) return blob;
+
+  const png = addPngText(new Uint8Array(await blob.arrayBuffer()), {
+    Description: meta.prompt,
+    Software: 'Sketch-to-Life',
+    'Creation Time': new Date(meta.createdAt).toISOString(),
+    [METADATA_KEY]: JSON.stringify({ format: METADATA_FORMAT, version: METADATA_VERSION, ...meta }),
+  });
+  return new Blob([png], { type: 'image/png' });
+};
+
+/**
+ * Renders the requested export into one or two files. `result` may be missing when only
+ * the sketch is available, in which case only sketch content can be exported.
+ */
+export async function exportImages(
+  { sketch, result }: { sketch?: string; result?: string },
+  settings: ExportSettings,
+  meta: ImageMetadata
+): Promise<{ name: string; blob: Blob }[]> {
+  const stamp = new Date(meta.createdAt).toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const ext = extensionForMimeType(settings.format);
+  const file = async (suffix: string, canvas: HTMLCanvasElement) =>
+    ({ name: `sketch-to-life-${stamp}${suffix}.${ext}`, blob: await encode(canvas, settings, meta) });
+
+  const needsSketch = settings.content !== 'result';
+  const needsResult = settings.content !== 'sketch';
+  if (needsSketch && !sketch) throw new Error("There is no sketch to export.");
+  if (needsResult && !result) throw new Error("There is no result to export.");
+
+  switch (settings.content) {
+    case 'sketch':
+      return [await file('-sketch', await drawImage(sketch!, settings.size))];
+    case 'both':
+      return [
+        await file('-sketch', await drawImage(sketch!, settings.size)),
+        await file('', await drawImage(result!, settings.size)),
+      ];
+    case 'side-by-side':
+      return [await file('-compare', await drawSideBySide(sketch!, result!, settings.size))];
+    case 'result':
+    default:
+      return [await file('', await drawImage(result!, settings.size))];
+  }
+}
+
+/** Metadata written by `exportImages`, or null for files without it (or that aren't PNG). */
+export async function readImageMetadata(file: Blob): Promise<ImageMetadata | null> {
+  const entries = readPngText(new Uint8Array(await file.arrayBuffer()));
+  try {
+    const data = JSON.parse(entries[METADATA_KEY] ?? 'null');
+    if (data?.format !== METADATA_FORMAT || typeof data.prompt !== 'string') return null;
+    return { prompt: data.prompt, model: data.model, providerId: data.providerId, createdAt: Number(data.createdAt) || 0 };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,60 @@
+// The user's colour palette, recently used colours and their own saved brush, kept together
+// in localStorage so the drawing setup comes back the way it was left.
+import { BrushSettings, normalizeBrush } from '../utils/brush';
+
+export interface Palette {
+  /** Swatches shown in the sidebar, in order. */
+  colors: string[];
+  /** Most recent first. */
+  recent: string[];
+  /** "My brush", saved from the brush settings. */
+  customBrush: BrushSettings | null;
+}
+
+export const DEFAULT_COLORS = ['#000000', '#FF0000', '#00FF00', '#0000FF', '#FFFF00', '#FF00FF', '#00FFFF', '#FFFFFF'];
+export const MAX_PALETTE_COLORS = 24;
+export const MAX_RECENT_COLORS = 8;
+
+export const DEFAULT_PALETTE: Palette = { colors: DEFAULT_COLORS, recent: [], customBrush: null };
+
+const STORAGE_KEY = 'sketch-to-life:palette';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Colour inputs report lowercase #rrggbb; compare swatches the same way
+export const sameColor = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const normalizeColors = (list: unknown, limit: number) =>
+  Array.isArray(list)
+    ? list.filter((c): c is string => typeof c === 'string' && HEX_COLOR.test(c))
+      .filter((c, i, all) => all.findIndex(other => sameColor(other, c)) === i)
+      .slice(0, limit)
+    : [];
+
+/** Puts a colour at the front of the recent list. */
+export const pushRecentColor = (recent: string[], color: string) =>
+  [color, ...recent.filter(c => !sameColor(c, color))].slice(0, MAX_RECENT_COLORS);
+
+export function loadPalette(): Palette {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_PALETTE;
+    const data: unknown = JSON.parse(raw);
+    if (typeof data !== 'object' || data === null) return DEFAULT_PALETTE;
+    return {
+      colors: 'colors' in data && Array.isArray(data.colors) ? normalizeColors(data.colors, MAX_PALETTE_COLORS) : DEFAULT_COLORS,
+      recent: 'recent' in data ? normalizeColors(data.recent, MAX_RECENT_COLORS) : [],
+      customBrush: 'customBrush' in data && data.customBrush ? normalizeBrush(data.customBrush) : null,
+    };
+  } catch {
+    return DEFAULT_PALETTE;
+  }
+}
+
+export function savePalette(palette: Palette) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(palette));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the palette just won't persist
+  }
+}
@@ -0,0 +1,139 @@
+// Prompt presets: reusable instructions with `{variable}` placeholders, plus an optional
+// system instruction. Built-ins ship with the app; user presets live in localStorage and
+// can be shared as JSON files.
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  /** Instruction text; `{name}` placeholders are filled in from the preset variables. */
+  template: string;
+  /** Default values for placeholders, e.g. { style: 'loose watercolor' }. */
+  defaults?: Record<string, string>;
+  systemInstruction?: string;
+  builtIn?: boolean;
+}
+
+export const PRESETS_FORMAT = 'sketch-to-life-presets';
+export const PRESETS_VERSION = 1;
+
+const STORAGE_KEY = 'sketch-to-life:presets';
+
+export const BUILT_IN_PRESETS: PromptPreset[] = [
+  {
+    id: 'builtin-watercolor',
+    name: 'Watercolor',
+    template: "Paint {subject} as a {style} watercolor on textured paper, with soft washes and visible brush edges.",
+    defaults: { subject: 'this sketch', style: 'loose, airy' },
+    systemInstruction: "You are a traditional watercolor illustrator. Keep the composition of the sketch.",
+    builtIn: true,
+  },
+  {
+    id: 'builtin-photoreal',
+    name: 'Photoreal',
+    template: "Turn {subject} into a photorealistic photo, {style}, with natural lighting and accurate materials.",
+    defaults: { subject: 'this sketch', style: 'shot on a 50mm lens' },
+    systemInstruction: "You are a photographer and retoucher. Match the layout and proportions of the sketch exactly.",
+    builtIn: true,
+  },
+  {
+    id: 'builtin-line-art',
+    name: 'Line-art cleanup',
+    template: "Clean up {subject} into crisp {style} line art on a plain white background. No shading or color.",
+    defaults: { subject: 'this sketch', style: 'uniform-weight black' },
+    systemInstruction: "You are an inker. Trace the intended lines faithfully; remove stray marks and construction lines.",
+    builtIn: true,
+  },
+  {
+    id: 'builtin-3d',
+    name: '3D render',
+    template: "Render {subject} as a {style} 3D scene with soft global illumination.",
+    defaults: { subject: 'this sketch', style: 'clay-style' },
+    builtIn: true,
+  },
+];
+
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+/** Placeholder names in the order they first appear. */
+export const templateVariables = (template: string) =>
+  [...new Set([...template.matchAll(VARIABLE_PATTERN)].map(m => m[1]))];
+
+/** Fills placeholders; ones without a value fall back to the preset defaults, then stay as written. */
+export const fillTemplate = (preset: PromptPreset, values: Record<string, string>) =>
+  preset.template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    values[name]?.trim() || preset.defaults?.[name] || match);
+
+/** Preset text first, then whatever the user typed as extra direction. */
+export const composePrompt = (preset: PromptPreset | null, values: Record<string, string>, freeText: string) =>
+  [preset ? fillTemplate(preset, values) : '', freeText.trim()].filter(Boolean).join('\n\n');
+
+export const createPresetId = () => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export function loadUserPresets(): PromptPreset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizePresets(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserPresets(presets: PromptPreset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // Storage can be unavailable (private mode, quota); presets just won't persist
+  }
+}
+
+export function serializePresets(presets: PromptPreset[]): string {
+  return JSON.stringify({
+    format: PRESETS_FORMAT,
+    version: PRESETS_VERSION,
+    presets: presets.map(({ builtIn: _builtIn, ...preset }) => preset),
+  }, null, 2);
+}
+
+/** Parses an exported preset file. Throws with a readable message if it isn't one. */
+export function parsePresets(text: string): PromptPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+  // Accept a bare array too, it's the obvious thing to write by hand
+  const file = isRecord(data) && !Array.isArray(data) ? data : null;
+  const list = Array.isArray(data) ? data : file?.presets;
+  if (!Array.isArray(list)) throw new Error("This file doesn't contain any presets.");
+  if (file && file.format !== PRESETS_FORMAT) throw new Error("This isn't a Sketch-to-Life preset file.");
+  if (file && typeof file.version === 'number' && file.version > PRESETS_VERSION) {
+    throw new Error(`These presets were saved by a newer version (v${file.version}). Please update the app.`);
+  }
+  const presets = normalizePresets(list);
+  if (presets.length === 0) throw new Error("None of the presets in this file have a name and template.");
+  return presets;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Placeholder defaults go into the template as-is, so only string values are kept
+const stringRecord = (value: unknown): Record<string, string> | undefined =>
+  isRecord(value)
+    ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    : undefined;
+
+// Drops malformed entries and anything claiming to be built in
+const normalizePresets = (list: unknown): PromptPreset[] => {
+  if (!Array.isArray(list)) return [];
+  return list.filter(isRecord).flatMap((p): PromptPreset[] => {
+    if (typeof p.name !== 'string' || !p.name.trim() || typeof p.template !== 'string') return [];
+    return [{
+      id: typeof p.id === 'string' && p.id ? p.id : createPresetId(),
+      name: p.name.trim(),
+      template: p.template,
+      defaults: stringRecord(p.defaults),
+      systemInstruction: typeof p.systemInstruction === 'string' && p.systemInstruction ? p.systemInstruction : undefined,
+    }];
+  });
+};
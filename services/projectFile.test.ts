@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { PROJECT_FORMAT, PROJECT_VERSION, ProjectFileError, parseProject } from './projectFile';
+
+const IMAGE = 'data:image/png;base64,AAAA';
+
+const layer = (id: string, kind: 'background' | 'drawing') => ({ id, name: id, kind, visible: true, opacity: 1, locked: false, image: IMAGE });
+
+// A valid file; tests override single fields
+const projectText = ({ canvas = {}, brush = {} }: { canvas?: object; brush?: object } = {}) => JSON.stringify({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: '2024-01-01T00:00:00.000Z',
+  canvas: {
+    width: 100,
+    height: 80,
+    layers: [layer('bg', 'background'), layer('ink', 'drawing'), layer('color', 'drawing')],
+    activeLayerId: 'ink',
+    mask: null,
+    ...canvas,
+  },
+  brush: { tool: 'pencil', color: '#112233', brushSize: 8, ...brush },
+  prompt: 'a cat',
+  results: [],
+});
+
+describe('parseProject', () => {
+  it('reads a valid file', () => {
+    const project = parseProject(projectText());
+    expect(project.canvas.layers.map(l => l.id)).toEqual(['bg', 'ink', 'color']);
+    expect(project.canvas.activeLayerId).toBe('ink');
+    expect(project.brush).toMatchObject({ color: '#112233', brushSize: 8 });
+  });
+
+  it('rejects duplicate layer ids', () => {
+    const layers = [layer('bg', 'background'), layer('ink', 'drawing'), layer('ink', 'drawing')];
+    expect(() => parseProject(projectText({ canvas: { layers } }))).toThrow(ProjectFileError);
+  });
+
+  it('falls back to the top drawing layer when the active layer is unknown', () => {
+    expect(parseProject(projectText({ canvas: { activeLayerId: 'gone' } })).canvas.activeLayerId).toBe('color');
+    expect(parseProject(projectText({ canvas: { activeLayerId: undefined } })).canvas.activeLayerId).toBe('color');
+  });
+
+  it('replaces colours that are not #rrggbb', () => {
+    expect(parseProject(projectText({ brush: { color: 'url(evil)' } })).brush.color).toBe('#000000');
+    expect(parseProject(projectText({ brush: { color: '#AABBCC' } })).brush.color).toBe('#aabbcc');
+  });
+
+  it('keeps the brush size in the slider range', () => {
+    expect(parseProject(projectText({ brush: { brushSize: 0 } })).brush.brushSize).toBe(4);
+    expect(parseProject(projectText({ brush: { brushSize: -3 } })).brush.brushSize).toBe(4);
+    expect(parseProject(projectText({ brush: { brushSize: 5000 } })).brush.brushSize).toBe(50);
+  });
+
+  it('rejects a file that is not an object', () => {
+    expect(() => parseProject('[1, 2]')).toThrow(ProjectFileError);
+  });
+});
@@ -0,0 +1,187 @@
+// Portable project files (.sketchlife).
+// A project is a single JSON document with images embedded as data URLs, so it can
+// be opened anywhere without extra tooling. Every file carries a format version;
+// older files are upgraded step by step through MIGRATIONS before validation.
+import { BrushSettings, normalizeBrush } from '../utils/brush';
+
+export const PROJECT_EXTENSION = '.sketchlife';
+export const PROJECT_FORMAT = 'sketchlife';
+export const PROJECT_VERSION = 1;
+
+export interface ProjectLayer {
+  id: string;
+  name: string;
+  kind: 'background' | 'drawing';
+  visible: boolean;
+  opacity: number;
+  locked: boolean;
+  /** PNG data URL of the layer pixels. */
+  image: string;
+}
+
+export interface ProjectCanvas {
+  /** Pixel size of the layer images. */
+  width: number;
+  height: number;
+  /** Bottom to top. */
+  layers: ProjectLayer[];
+  activeLayerId: string;
+  /** PNG data URL of the inpainting mask, if anything is masked. */
+  mask: string | null;
+}
+
+export interface ProjectBrush {
+  tool: string;
+  color: string;
+  brushSize: number;
+  /** Brush engine settings; older projects without them draw with the plain pen. */
+  settings?: BrushSettings;
+}
+
+export interface ProjectResult {
+  image: string;
+}
+
+export interface Project {
+  canvas: ProjectCanvas;
+  brush: ProjectBrush;
+  prompt: string;
+  results: ProjectResult[];
+}
+
+interface ProjectFile extends Project {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+// Upgrades a raw file from version N to N + 1. Add an entry here whenever
+// PROJECT_VERSION is bumped, e.g. `1: (file) => ({ ...file, version: 2, newField: default })`.
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export function serializeProject(project: Project): string {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    ...project,
+  };
+  return JSON.stringify(file);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Same range as the brush size slider
+const MIN_BRUSH_SIZE = 1;
+const MAX_BRUSH_SIZE = 50;
+const DEFAULT_BRUSH_SIZE = 4;
+
+const isImageDataURL = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith('data:image/');
+
+function fail(message: string): never {
+  throw new ProjectFileError(message);
+}
+
+const validateLayer = (layer: unknown, i: number): ProjectLayer => {
+  if (!isObject(layer) || typeof layer.id !== 'string') fail(`Layer ${i + 1} is malformed.`);
+  const name = typeof layer.name === 'string' ? layer.name : undefined;
+  const kind = layer.kind;
+  if (kind !== 'background' && kind !== 'drawing') fail(`Layer "${name ?? i + 1}" has an unknown type.`);
+  if (!isImageDataURL(layer.image)) fail(`Layer "${name ?? i + 1}" has no image data.`);
+  return {
+    id: layer.id,
+    name: name ?? 'Layer',
+    kind,
+    visible: layer.visible !== false,
+    opacity: typeof layer.opacity === 'number' ? Math.min(1, Math.max(0, layer.opacity)) : 1,
+    locked: layer.locked === true,
+    image: layer.image,
+  };
+};
+
+const validate = (file: Record<string, unknown>): Project => {
+  const { canvas, brush, prompt, results } = file;
+
+  if (!isObject(canvas)) fail("The project has no canvas data.");
+  const { width, height, mask } = canvas;
+  if (typeof width !== 'number' || typeof height !== 'number' || !(width > 0 && height > 0)) {
+    fail("The project canvas has an invalid size.");
+  }
+  if (!Array.isArray(canvas.layers) || canvas.layers.length === 0) fail("The project has no layers.");
+  const layers = canvas.layers.map(validateLayer);
+  const duplicate = layers.find((layer, i) => layers.findIndex(other => other.id === layer.id) !== i);
+  if (duplicate) fail(`The project has more than one layer with the id "${duplicate.id}".`);
+  if (!layers.some(layer => layer.kind === 'drawing')) fail("The project has no drawing layer.");
+  if (layers[0].kind !== 'background') fail("The project's bottom layer must be the reference layer.");
+  if (mask !== null && mask !== undefined && !isImageDataURL(mask)) fail("The project mask is corrupt.");
+
+  if (!isObject(brush)) fail("The project has no brush settings.");
+  if (typeof prompt !== 'string') fail("The project prompt is missing.");
+  if (!Array.isArray(results)) fail("The project results are corrupt.");
+  const resultImages = results.map(r => (isObject(r) && isImageDataURL(r.image) ? r.image : fail("The project results are corrupt.")));
+
+  // An active layer that doesn't exist falls back to the top drawing layer
+  const activeLayer = layers.find(layer => layer.id === canvas.activeLayerId)
+    ?? [...layers].reverse().find(layer => layer.kind === 'drawing');
+  const brushSize = Number(brush.brushSize);
+
+  return {
+    canvas: {
+      width,
+      height,
+      layers,
+      activeLayerId: activeLayer.id,
+      mask: isImageDataURL(mask) ? mask : null,
+    },
+    brush: {
+      tool: typeof brush.tool === 'string' ? brush.tool : 'pencil',
+      color: typeof brush.color === 'string' && HEX_COLOR.test(brush.color) ? brush.color.toLowerCase() : '#000000',
+      brushSize: brushSize > 0 ? Math.min(MAX_BRUSH_SIZE, Math.max(MIN_BRUSH_SIZE, Math.round(brushSize))) : DEFAULT_BRUSH_SIZE,
+      ...(isObject(brush.settings) ? { settings: normalizeBrush(brush.settings) } : {}),
+    },
+    prompt,
+    results: resultImages.map(image => ({ image })),
+  };
+};
+
+/** Parses, migrates and validates a project file. Throws ProjectFileError with a readable message. */
+export function parseProject(text: string): Project {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("This file is not a valid Sketch-to-Life project (it could not be read as JSON).");
+  }
+
+  if (!isObject(data) || data.format !== PROJECT_FORMAT) {
+    fail("This file is not a Sketch-to-Life project.");
+  }
+  let version = data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    fail("The project file has no valid format version.");
+  }
+  if (version > PROJECT_VERSION) {
+    fail(`This project was saved by a newer version of Sketch-to-Life (format v${version}, this app supports up to v${PROJECT_VERSION}). Please update the app to open it.`);
+  }
+
+  let file = data;
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) fail(`Project format v${version} can no longer be opened.`);
+    file = migrate(file);
+    version++;
+  }
+
+  return validate(file);
+}
@@ -0,0 +1,159 @@
+import {
+  Candidate,
+  GenerateContentResponsePromptFeedback,
+  GoogleGenAI,
+  Part,
+  SafetyRating as GeminiSafetyRating,
+} from "@google/genai";
+import { ConversationTurn, EditRequest, GenerateRequest, GenerationResult, ImageInput, ImageProvider, SafetyRating } from './types';
+import { SKETCH_INSTRUCTION, referenceLabel } from './prompting';
+import { AuthError, GenerationError, NetworkError, NoImageError, SafetyError, errorFromStatus, toGenerationError } from '../errors';
+
+interface GeminiProviderConfig {
+  apiKey?: string;
+  /** Local proxy endpoint that holds the key server-side (see server/proxy.mjs). Used instead of `apiKey`. */
+  proxyUrl?: string;
+}
+
+export const GEMINI_MODELS = [
+  // Using the mapped model name for 'nano banana' / 'gemini flash image'
+  'gemini-2.5-flash-image',
+  'gemini-3-pro-image-preview',
+];
+
+const MASK_INSTRUCTION = "The next image is an inpainting mask for the first image. " +
+  "Only change the regions that are white in the mask; keep every black region exactly as it is.";
+
+// Finish reasons that mean the output was withheld rather than the model choosing not to draw
+const SAFETY_FINISH_REASONS: string[] = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_PROHIBITED_CONTENT'];
+
+const toRatings = (ratings: GeminiSafetyRating[] = []): SafetyRating[] => ratings
+  .filter(r => r.category)
+  .map(r => ({ category: r.category, probability: r.probability, blocked: r.blocked || undefined }));
+
+const inlinePart = (image: ImageInput) => ({
+  inlineData: {
+    mimeType: image.mimeType,
+    data: image.data,
+  },
+});
+
+// Earlier turns become alternating user/model contents, so follow-ups build on them
+const historyContents = (history: ConversationTurn[]) => history.flatMap(turn => [
+  { role: 'user', parts: [{ text: turn.prompt }, ...turn.images.map(inlinePart)] },
+  { role: 'model', parts: [inlinePart(turn.result), ...(turn.text ?? []).map(text => ({ text }))] },
+]);
+
+// The part of a Gemini response the proxy passes back (see server/proxy.mjs)
+interface ProxyResponse {
+  candidates?: Candidate[];
+  promptFeedback?: GenerateContentResponsePromptFeedback;
+}
+
+const isProxyResponse = (value: unknown): value is ProxyResponse =>
+  typeof value === 'object' && value !== null
+  && (!('candidates' in value) || value.candidates === undefined || Array.isArray(value.candidates))
+  && (!('promptFeedback' in value) || value.promptFeedback === undefined || typeof value.promptFeedback === 'object');
+
+// Error bodies look like { error: { message } }
+const proxyErrorMessage = (payload: unknown) =>
+  typeof payload === 'object' && payload !== null && 'error' in payload
+    && typeof payload.error === 'object' && payload.error !== null && 'message' in payload.error
+    && typeof payload.error.message === 'string'
+    ? payload.error.message
+    : undefined;
+
+// The proxy forwards the same request body and answers with the raw response JSON
+const callProxy = async (proxyUrl: string, body: object, signal?: AbortSignal): Promise<ProxyResponse> => {
+  const response = await fetch(proxyUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  }).catch((error) => {
+    if (signal?.aborted) throw error;
+    throw new NetworkError("Could not reach the local proxy. Is `npm run proxy` running?", { cause: error });
+  });
+  const payload: unknown = await response.json().catch(() => null);
+  if (!response.ok) throw errorFromStatus(response.status, proxyErrorMessage(payload) || `Proxy returned ${response.status}.`);
+  if (!isProxyResponse(payload)) throw new GenerationError('unknown', "The local proxy sent back something that isn't a Gemini response.");
+  return payload;
+};
+
+export function createGeminiProvider({ apiKey, proxyUrl }: GeminiProviderConfig): ImageProvider {
+  const run = async (
+    model: string,
+    parts: Part[],
+    { systemInstruction, signal, history = [] }: Pick<EditRequest, 'systemInstruction' | 'signal' | 'history'>
+  ): Promise<GenerationResult> => {
+    const request = {
+      model,
+      contents: history.length > 0 ? [...historyContents(history), { role: 'user', parts }] : {
+        parts: parts,
+      },
+      config: systemInstruction ? { systemInstruction } : {},
+    };
+
+    let response: ProxyResponse;
+    if (proxyUrl) {
+      response = await callProxy(proxyUrl, request, signal);
+    } else {
+      if (!apiKey) throw new AuthError("No Gemini API key is configured.");
+      const ai = new GoogleGenAI({ apiKey });
+      response = await ai.models.generateContent({ ...request, config: { ...request.config, abortSignal: signal } }).catch((error) => {
+        // Keep aborts as they are so the caller can tell a cancel from a timeout
+        if (signal?.aborted) throw error;
+        throw toGenerationError(error);
+      });
+    }
+
+    const feedback = response.promptFeedback;
+    if (feedback?.blockReason) {
+      throw new SafetyError(feedback.blockReasonMessage || feedback.blockReason, { ratings: toRatings(feedback.safetyRatings) });
+    }
+
+    // The response can mix text (commentary, or why it didn't draw) with inlineData (the images)
+    const candidate = response.candidates?.[0];
+    const result: GenerationResult = { images: [], text: [], finishReason: candidate?.finishReason, safetyRatings: toRatings(candidate?.safetyRatings) };
+    for (const part of candidate?.content?.parts ?? []) {
+      if (part.inlineData?.data) {
+        result.images.push(`data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`);
+      } else if (part.text?.trim() && !part.thought) {
+        result.text.push(part.text.trim());
+      }
+    }
+    if (result.images.length > 0) return result;
+
+    const text = result.text.join(' ') || undefined;
+    if (result.finishReason && SAFETY_FINISH_REASONS.includes(result.finishReason)) {
+      throw new SafetyError(result.finishReason, { ratings: result.safetyRatings, modelText: text });
+    }
+    throw new NoImageError(text);
+  };
+
+  return {
+    id: 'gemini',
+    name: 'Google Gemini',
+    models: GEMINI_MODELS,
+    capabilities: {
+      maxResolution: 3072,
+      supportedMimeTypes: ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'],
+      multiImageInput: true,
+      maxInputImages: 3,
+      multiTurn: true,
+    },
+    generate: ({ prompt, model, ...options }: GenerateRequest) => run(model, [{ text: prompt }], options),
+    edit: ({ prompt, model, images, mask, references = [], ...options }: EditRequest) => run(model, [
+      { text: prompt },
+      ...(references.length > 0 ? [{ text: SKETCH_INSTRUCTION }] : []),
+      ...images.map(inlinePart),
+      // Each reference is preceded by its label so the model knows which is which
+      ...references.flatMap((reference, i) => [{ text: referenceLabel(reference, i) }, inlinePart(reference)]),
+      // Gemini has no native mask parameter, so the mask goes in as another image with instructions
+      ...(mask ? [
+        { text: MASK_INSTRUCTION },
+        inlinePart(mask),
+      ] : []),
+    ], options),
+  };
+}
@@ -0,0 +1,137 @@
+import { EditRequest, GenerateRequest, GenerationResult, ImageProvider } from './types';
+import { describeReferences } from './prompting';
+import { NetworkError, NoImageError, SafetyError, errorFromStatus } from '../errors';
+import { maskToAlphaDataURL } from '../../utils/mask';
+import { extensionForMimeType, parseDataURL, toDataURL } from '../../utils/image';
+
+// Adapter for OpenAI-style image endpoints (`/images/generations`, `/images/edits`).
+// Many self-hosted and third-party gateways expose the same shape.
+
+interface HttpProviderConfig {
+  /** Base URL, e.g. https://api.openai.com/v1 */
+  endpoint: string;
+  apiKey?: string;
+}
+
+export const HTTP_MODELS = ['gpt-image-1', 'dall-e-2'];
+
+const base64ToBlob = (data: string, mimeType: string) => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+// Image endpoints have no system role, so standing instructions go in front of the prompt
+const withSystemInstruction = (prompt: string, systemInstruction?: string) =>
+  systemInstruction ? `${systemInstruction}\n\n${prompt}` : prompt;
+
+// Error codes these endpoints use for moderation blocks
+const SAFETY_CODES = ['content_policy_violation', 'moderation_blocked'];
+
+interface ImageItem {
+  b64_json?: string;
+  url?: string;
+  revised_prompt?: string;
+}
+
+// Success body of both endpoints
+interface ImageResponse {
+  data: ImageItem[];
+  /** gpt-image-1 reports png/jpeg/webp here; older endpoints always return PNG. */
+  output_format?: string;
+}
+
+// Error body: { error: { message, code } }
+interface ErrorResponse {
+  message?: string;
+  code?: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+const readImageResponse = (payload: unknown): ImageResponse => {
+  if (!isObject(payload)) return { data: [] };
+  return {
+    data: (Array.isArray(payload.data) ? payload.data : []).filter(isObject).map(item => ({
+      b64_json: optionalString(item.b64_json),
+      url: optionalString(item.url),
+      revised_prompt: optionalString(item.revised_prompt),
+    })),
+    output_format: optionalString(payload.output_format),
+  };
+};
+
+const readErrorResponse = (payload: unknown): ErrorResponse => {
+  const error = isObject(payload) && isObject(payload.error) ? payload.error : {};
+  return { message: optionalString(error.message), code: optionalString(error.code) };
+};
+
+export function createHttpProvider({ endpoint, apiKey }: HttpProviderConfig): ImageProvider {
+  const baseUrl = endpoint.replace(/\/+$/, '');
+
+  const request = async (path: string, body: BodyInit, json: boolean, signal?: AbortSignal): Promise<GenerationResult> => {
+    if (!baseUrl) throw new Error("No endpoint configured for the HTTP image provider.");
+
+    const headers: Record<string, string> = {};
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+    if (json) headers['Content-Type'] = 'application/json';
+
+    const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers, body, signal }).catch((error) => {
+      if (signal?.aborted) throw error;
+      throw new NetworkError(undefined, { cause: error });
+    });
+    const payload: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      const error = readErrorResponse(payload);
+      const message = error.message || `Image endpoint returned ${response.status}.`;
+      if (error.code && SAFETY_CODES.includes(error.code)) throw new SafetyError(message);
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw errorFromStatus(response.status, message, retryAfter > 0 ? retryAfter * 1000 : undefined);
+    }
+
+    const { data: items, output_format } = readImageResponse(payload);
+    const mimeType = `image/${output_format || 'png'}`;
+    const images = items
+      .map(item => item.b64_json ? `data:${mimeType};base64,${item.b64_json}` : item.url)
+      .filter((url): url is string => !!url);
+    // The closest thing these endpoints have to commentary is the rewritten prompt
+    const text = items.map(item => item.revised_prompt).filter((prompt): prompt is string => !!prompt);
+    if (images.length === 0) throw new NoImageError(text.join(' ') || undefined);
+    return { images, text, safetyRatings: [] };
+  };
+
+  return {
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible HTTP',
+    models: HTTP_MODELS,
+    capabilities: {
+      maxResolution: 1536,
+      supportedMimeTypes: ['image/png', 'image/jpeg', 'image/webp'],
+      multiImageInput: true,
+      maxInputImages: 16,
+      multiTurn: false,
+    },
+    generate: ({ prompt, model, systemInstruction, signal }: GenerateRequest) =>
+      request('/images/generations', JSON.stringify({ model, prompt: withSystemInstruction(prompt, systemInstruction), n: 1 }), true, signal),
+    edit: async ({ prompt, model, images, mask, references = [], systemInstruction, signal }: EditRequest) => {
+      const form = new FormData();
+      form.append('model', model);
+      // Images are sent as a flat list, so the roles have to be spelled out in the prompt
+      const fullPrompt = references.length > 0 ? `${prompt}\n\n${describeReferences(references)}` : prompt;
+      form.append('prompt', withSystemInstruction(fullPrompt, systemInstruction));
+      const inputs = [...images, ...references];
+      inputs.forEach((image, i) => {
+        form.append(inputs.length > 1 ? 'image[]' : 'image', base64ToBlob(image.data, image.mimeType), `image-${i}.${extensionForMimeType(image.mimeType)}`);
+      });
+      if (mask) {
+        // These endpoints expect transparency to mark the editable area
+        const alphaMask = parseDataURL(await maskToAlphaDataURL(toDataURL(mask.data, mask.mimeType)));
+        form.append('mask', base64ToBlob(alphaMask.data, alphaMask.mimeType), 'mask.png');
+      }
+      return request('/images/edits', form, false, signal);
+    },
+  };
+}
@@ -0,0 +1,99 @@
+import { createGeminiProvider, GEMINI_MODELS } from './geminiProvider';
+import { createHttpProvider, HTTP_MODELS } from './httpProvider';
+import { createMockProvider, MOCK_MODELS } from './mockProvider';
+import { ImageProvider, ProviderId } from './types';
+import { getApiKey } from '../apiKeys';
+
+export * from './types';
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  model: string;
+  /** Only used by the OpenAI-compatible adapter. */
+  httpEndpoint: string;
+  httpApiKey: string;
+  /** Per-attempt request timeout; retries get their own. */
+  timeoutSeconds: number;
+  /** Send Gemini requests through the local proxy server, which holds the key. */
+  geminiProxy: boolean;
+  /** Upload images as JPEG instead of PNG to cut request size. */
+  sendJpeg: boolean;
+}
+
+/** Where the dev/preview server forwards proxy calls (see vite.config.ts). */
+export const GEMINI_PROXY_URL = '/api/generate';
+
+export const PROVIDER_OPTIONS: { id: ProviderId; name: string; models: string[] }[] = [
+  { id: 'gemini', name: 'Google Gemini', models: GEMINI_MODELS },
+  { id: 'openai-compatible', name: 'OpenAI-compatible HTTP', models: HTTP_MODELS },
+  { id: 'mock', name: 'Local Mock (offline)', models: MOCK_MODELS },
+];
+
+export const isProviderId = (value: unknown): value is ProviderId => PROVIDER_OPTIONS.some(p => p.id === value);
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'gemini',
+  model: GEMINI_MODELS[0],
+  httpEndpoint: 'https://api.openai.com/v1',
+  httpApiKey: '',
+  timeoutSeconds: 120,
+  geminiProxy: false,
+  sendJpeg: false,
+};
+
+const STORAGE_KEY = 'sketch-to-life:provider';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const stringOr = (value: unknown, fallback: string) => typeof value === 'string' ? value : fallback;
+const booleanOr = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+
+export function loadProviderSettings(): ProviderSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_PROVIDER_SETTINGS;
+    const data: unknown = JSON.parse(raw);
+    if (!isRecord(data)) return DEFAULT_PROVIDER_SETTINGS;
+    const { providerId, model, timeoutSeconds } = data;
+    // Ignore settings for providers that no longer exist
+    if (!isProviderId(providerId)) return DEFAULT_PROVIDER_SETTINGS;
+    const defaults = DEFAULT_PROVIDER_SETTINGS;
+    const models = PROVIDER_OPTIONS.find(p => p.id === providerId)?.models ?? [];
+    return {
+      providerId,
+      model: typeof model === 'string' && model ? model : models[0] ?? defaults.model,
+      httpEndpoint: stringOr(data.httpEndpoint, defaults.httpEndpoint),
+      httpApiKey: stringOr(data.httpApiKey, defaults.httpApiKey),
+      // Same range as the timeout input in the sidebar
+      timeoutSeconds: typeof timeoutSeconds === 'number' && Number.isFinite(timeoutSeconds)
+        ? Math.min(600, Math.max(10, timeoutSeconds))
+        : defaults.timeoutSeconds,
+      geminiProxy: booleanOr(data.geminiProxy, defaults.geminiProxy),
+      sendJpeg: booleanOr(data.sendJpeg, defaults.sendJpeg),
+    };
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+}
+
+export function saveProviderSettings(settings: ProviderSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the selection just won't persist
+  }
+}
+
+export function createProvider(settings: ProviderSettings): ImageProvider {
+  switch (settings.providerId) {
+    case 'openai-compatible':
+      return createHttpProvider({ endpoint: settings.httpEndpoint, apiKey: settings.httpApiKey });
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      // The key is entered at runtime (services/apiKeys.ts), or kept by the proxy
+      return settings.geminiProxy
+        ? createGeminiProvider({ proxyUrl: GEMINI_PROXY_URL })
+        : createGeminiProvider({ apiKey: getApiKey() ?? undefined });
+  }
+}
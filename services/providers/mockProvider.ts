@@ -0,0 +1,74 @@
+import { EditRequest, GenerateRequest, GenerationResult, ImageProvider } from './types';
+import { loadImage, toDataURL } from '../../utils/image';
+
+// Offline provider for development and tests. It never touches the network and
+// always produces the same output for the same prompt + input: the input is
+// re-tinted with a color derived from the prompt and the prompt is stamped on it.
+
+export const MOCK_MODELS = ['mock-tint-v1'];
+
+const OUTPUT_SIZE = 1024;
+
+// Small, stable string hash (FNV-1a) so the tint only depends on the prompt
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const render = async (prompt: string, model: string, source?: string, signal?: AbortSignal): Promise<GenerationResult> => {
+  signal?.throwIfAborted();
+  const canvas = document.createElement('canvas');
+  canvas.width = OUTPUT_SIZE;
+  canvas.height = OUTPUT_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Mock provider could not create a canvas.");
+
+  const hue = hashString(`${model}:${prompt}`) % 360;
+
+  if (source) {
+    const img = await loadImage(source);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, OUTPUT_SIZE, OUTPUT_SIZE);
+    const scale = Math.min(OUTPUT_SIZE / img.width, OUTPUT_SIZE / img.height);
+    const w = img.width * scale;
+    const h = img.height * scale;
+    ctx.drawImage(img, (OUTPUT_SIZE - w) / 2, (OUTPUT_SIZE - h) / 2, w, h);
+    ctx.globalCompositeOperation = 'multiply';
+  }
+
+  ctx.fillStyle = `hsl(${hue}, 70%, 60%)`;
+  ctx.fillRect(0, 0, OUTPUT_SIZE, OUTPUT_SIZE);
+  ctx.globalCompositeOperation = 'source-over';
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, OUTPUT_SIZE - 64, OUTPUT_SIZE, 64);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = '28px sans-serif';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`[mock] ${prompt}`.slice(0, 70), 20, OUTPUT_SIZE - 32, OUTPUT_SIZE - 40);
+
+  return { images: [canvas.toDataURL('image/png')], text: [], finishReason: 'STOP', safetyRatings: [] };
+};
+
+export function createMockProvider(): ImageProvider {
+  return {
+    id: 'mock',
+    name: 'Local Mock (offline)',
+    models: MOCK_MODELS,
+    capabilities: {
+      maxResolution: 4096,
+      supportedMimeTypes: ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/svg+xml'],
+      multiImageInput: true,
+      maxInputImages: 8,
+      multiTurn: false,
+    },
+    generate: ({ prompt, model, signal }: GenerateRequest) => render(prompt, model, undefined, signal),
+    // Only the first image is used as the base; references and masks are accepted but ignored
+    edit: ({ prompt, model, images, signal }: EditRequest) =>
+      render(prompt, model, images[0] ? toDataURL(images[0].data, images[0].mimeType) : undefined, signal),
+  };
+}
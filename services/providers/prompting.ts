@@ -0,0 +1,14 @@
+import { ReferenceInput } from './types';
+
+// Wording shared by adapters that can only tell images apart through text.
+
+export const SKETCH_INSTRUCTION = "The first image is the sketch to turn into the final picture. " +
+  "Any images after it are references only: take from each what its label says, " +
+  "but keep the composition of the sketch.";
+
+export const referenceLabel = (reference: ReferenceInput, index: number) =>
+  `Reference image ${index + 1}: ${reference.role?.trim() || 'general reference'}.`;
+
+/** Single-text version for endpoints that take one prompt and a flat list of images. */
+export const describeReferences = (references: ReferenceInput[]) =>
+  [SKETCH_INSTRUCTION, ...references.map(referenceLabel)].join('\n');
@@ -0,0 +1,93 @@
+// Shared contract for image-generation backends.
+// Each backend (Gemini, an OpenAI-style HTTP endpoint, the offline mock...) is an adapter
+// implementing ImageProvider, so the rest of the app never talks to an SDK directly.
+// Adapters report failures with the types in services/errors.ts where they can tell them apart.
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface ProviderCapabilities {
+  /** Largest width/height (in pixels) the provider accepts for input images. */
+  maxResolution: number;
+  /** MIME types accepted for input images. */
+  supportedMimeTypes: string[];
+  /** Whether more than one input image can be sent in a single request. */
+  multiImageInput: boolean;
+  /** Upper bound on input images per request. */
+  maxInputImages: number;
+  /** Whether earlier turns can be sent along as conversation context. */
+  multiTurn: boolean;
+}
+
+export interface ImageInput {
+  /** Base64 payload without the data URL header. */
+  data: string;
+  mimeType: string;
+}
+
+export interface ReferenceInput extends ImageInput {
+  /** What the image is for, e.g. "style reference". Free text from the user. */
+  role?: string;
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  model: string;
+  /** Standing instructions for the model (persona, rules) kept apart from the prompt where supported. */
+  systemInstruction?: string;
+  /** Aborts the request. Adapters reject with the abort error, which callers map to CancelledError. */
+  signal?: AbortSignal;
+}
+
+/** An earlier exchange in a multi-turn edit: what was asked and what came back. */
+export interface ConversationTurn {
+  prompt: string;
+  /** Images sent with that request: the sketch on the first turn, usually none after. */
+  images: ImageInput[];
+  result: ImageInput;
+  /** The model's text alongside the result. */
+  text?: string[];
+}
+
+export interface EditRequest extends GenerateRequest {
+  images: ImageInput[];
+  /** Optional black/white inpainting mask for the first image (white = area to change). */
+  mask?: ImageInput;
+  /** Extra images that guide the result but aren't the thing being edited. */
+  references?: ReferenceInput[];
+  /**
+   * Earlier turns, oldest first, for providers with `multiTurn`. The request then continues
+   * the conversation, and `images` may be empty: the model edits its own last result.
+   */
+  history?: ConversationTurn[];
+}
+
+export interface SafetyRating {
+  /** Provider's category id, e.g. HARM_CATEGORY_DANGEROUS_CONTENT. */
+  category: string;
+  /** NEGLIGIBLE, LOW, MEDIUM or HIGH where the provider reports it. */
+  probability?: string;
+  /** Whether this category is what blocked the output. */
+  blocked?: boolean;
+}
+
+/** Everything a provider sent back, not just the first image. */
+export interface GenerationResult {
+  /** Displayable image URLs (usually data URLs), in the order they were returned. */
+  images: string[];
+  /** Text parts: the model's commentary, or its explanation when it didn't draw. */
+  text: string[];
+  /** Why the model stopped, e.g. STOP or IMAGE_SAFETY. Not every provider reports one. */
+  finishReason?: string;
+  safetyRatings: SafetyRating[];
+}
+
+export interface ImageProvider {
+  id: ProviderId;
+  name: string;
+  models: string[];
+  capabilities: ProviderCapabilities;
+  /** Text-to-image. Resolves with at least one image; answers without one reject with NoImageError. */
+  generate: (request: GenerateRequest) => Promise<GenerationResult>;
+  /** Image(s) + instruction to image. Same contract as `generate`. */
+  edit: (request: EditRequest) => Promise<GenerationResult>;
+}
@@ -0,0 +1,67 @@
+import { CancelledError, QuotaError, TimeoutError, toGenerationError } from './errors';
+
+export interface RetryOptions {
+  /** Cancels the current attempt and any pending retry. */
+  signal?: AbortSignal;
+  /** Per-attempt limit in milliseconds. 0 disables it. */
+  timeoutMs?: number;
+  /** Extra attempts after the first one, for retryable errors only. */
+  retries?: number;
+  /** First backoff delay; doubles on every retry (with jitter). */
+  baseDelayMs?: number;
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void;
+}
+
+const MAX_DELAY_MS = 30_000;
+
+// Resolves after `ms`, or rejects right away when the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new CancelledError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `attempt` with a per-attempt timeout, retrying rate limits and transient failures
+ * with exponential backoff. Every failure comes out as a GenerationError.
+ */
+export async function withRetry<T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = 0, retries = 3, baseDelayMs = 1000, onRetry }: RetryOptions = {}
+): Promise<T> {
+  for (let i = 0; ; i++) {
+    if (signal?.aborted) throw new CancelledError();
+
+    // One controller per attempt, aborted by the caller's signal or by the timeout
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+    let timedOut = false;
+    const timer = timeoutMs > 0 ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs) : undefined;
+
+    try {
+      return await attempt(controller.signal);
+    } catch (raw) {
+      const error = timedOut ? new TimeoutError(timeoutMs) : signal?.aborted ? new CancelledError() : toGenerationError(raw);
+      if (!error.retryable || i >= retries) throw error;
+
+      const backoff = Math.min(MAX_DELAY_MS, baseDelayMs * 2 ** i) * (0.75 + Math.random() * 0.5);
+      const delay = error instanceof QuotaError && error.retryAfterMs ? Math.max(error.retryAfterMs, backoff) : backoff;
+      onRetry?.(i + 1, delay, error);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { ConversationTurn } from './providers';
+import { EditSession, SessionTurn } from '../types';
+import { blobToDataURL, dataURLToBlob, parseDataURL } from '../utils/image';
+
+// Refinement sessions are a tree of turns. The path from the first turn to the active one
+// is the thread sent as conversation context; asking again from an earlier turn adds a
+// sibling branch instead of overwriting what came after it.
+
+export const createTurnId = () => `turn-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const findTurn = (session: EditSession, id: string | null) => session.turns.find(t => t.id === id);
+
+/** Children of a turn (or the first turns, for null), oldest first. */
+export const childrenOf = (session: EditSession, parentId: string | null) =>
+  session.turns.filter(t => t.parentId === parentId).sort((a, b) => a.createdAt - b.createdAt);
+
+/** Turns from the first one down to `id`. */
+export const threadTo = (session: EditSession, id: string) => {
+  const thread: SessionTurn[] = [];
+  for (let turn = findTurn(session, id); turn; turn = findTurn(session, turn.parentId)) thread.unshift(turn);
+  return thread;
+};
+
+/** Follows the newest child down to a leaf, so switching to a branch shows all of it. */
+export const latestLeaf = (session: EditSession, id: string) => {
+  let current = id;
+  for (let children = childrenOf(session, current); children.length > 0; children = childrenOf(session, current)) {
+    current = children[children.length - 1].id;
+  }
+  return current;
+};
+
+/** The finished turns of a thread as provider conversation turns. Remote results are inlined. */
+export const toConversation = (thread: SessionTurn[]): Promise<ConversationTurn[]> => Promise.all(thread
+  .filter(turn => turn.status === 'done' && turn.result)
+  .map(async (turn) => {
+    const url = turn.result!.startsWith('data:') ? turn.result! : await blobToDataURL(await dataURLToBlob(turn.result!));
+    return {
+      prompt: turn.prompt,
+      images: turn.image ? [{ data: turn.image, mimeType: 'image/png' }] : [],
+      result: parseDataURL(url),
+      text: turn.text,
+    };
+  }));
@@ -0,0 +1,74 @@
+// Storyboard helpers: frame bookkeeping, the per-frame prompt, and rendering the frames
+// into an animated GIF or WebM.
+import { Storyboard, StoryboardFrame } from '../types';
+import type { CanvasDocument } from '../components/DrawingCanvas';
+import { DEFAULT_PROMPT, MAX_REFERENCE_IMAGES } from './geminiService';
+import type { ProviderCapabilities } from './providers';
+import { encodeGif } from '../utils/gif';
+import { encodeWebM } from '../utils/video';
+import { createCanvas, loadImage } from '../utils/image';
+
+export type AnimationFormat = 'gif' | 'webm';
+
+export const DEFAULT_FRAME_DURATION = 500;
+
+/** Role label for the previous frame's output, sent as a reference so frames stay consistent. */
+export const PREVIOUS_FRAME_ROLE = "previous frame of the same animation: keep characters, style, colours and lighting consistent with it";
+
+// GIFs get big fast, so they are capped smaller than video
+const MAX_EXPORT_SIZE: Record<AnimationFormat, number> = { gif: 640, webm: 1280 };
+
+export const createFrameId = () => `frame-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createFrame = (sketch: string, document: CanvasDocument, duration = DEFAULT_FRAME_DURATION): StoryboardFrame =>
+  ({ id: createFrameId(), sketch, document, note: '', duration });
+
+export const activeIndex = (storyboard: Storyboard) => storyboard.frames.findIndex(f => f.id === storyboard.activeId);
+
+/** The frame before the active one, shown as the onion skin while drawing. */
+export const previousFrame = (storyboard: Storyboard): StoryboardFrame | undefined =>
+  storyboard.frames[activeIndex(storyboard) - 1];
+
+export const updateFrame = (storyboard: Storyboard, id: string, patch: Partial<StoryboardFrame>): Storyboard =>
+  ({ ...storyboard, frames: storyboard.frames.map(f => f.id === id ? { ...f, ...patch } : f) });
+
+/** How many of the user's reference images fit in a frame request, next to the sketch and the previous frame. */
+export const frameReferenceLimit = ({ maxInputImages }: ProviderCapabilities) =>
+  Math.max(0, Math.min(MAX_REFERENCE_IMAGES, maxInputImages - 1) - 1);
+
+/** Shared prompt plus where this frame sits in the sequence and its own note. */
+export const framePrompt = (prompt: string, frame: StoryboardFrame, index: number, total: number) => [
+  prompt.trim() || DEFAULT_PROMPT,
+  `This is frame ${index + 1} of ${total} of an animation.`,
+  frame.note.trim(),
+].filter(Boolean).join('\n');
+
+/**
+ * Renders every frame (its result, or the sketch when it has none) at one size, letterboxed
+ * on white, and encodes the sequence. Frame size follows the first frame, capped per format.
+ */
+export async function exportAnimation(frames: StoryboardFrame[], format: AnimationFormat): Promise<Blob> {
+  if (frames.length === 0) throw new Error("Add some frames first.");
+  const images = await Promise.all(frames.map(f => loadImage(f.result ?? f.sketch)));
+
+  const scale = Math.min(1, MAX_EXPORT_SIZE[format] / Math.max(images[0].width, images[0].height));
+  // Even dimensions keep video encoders happy
+  const width = Math.max(2, Math.round(images[0].width * scale / 2) * 2);
+  const height = Math.max(2, Math.round(images[0].height * scale / 2) * 2);
+
+  const rendered = images.map((img) => {
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    const fit = Math.min(width / img.width, height / img.height);
+    const w = img.width * fit, h = img.height * fit;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+    return { canvas, ctx };
+  });
+
+  if (format === 'webm') {
+    return encodeWebM(rendered.map(({ canvas }, i) => ({ image: canvas, delay: frames[i].duration })), width, height);
+  }
+  return encodeGif(rendered.map(({ ctx }, i) => ({ data: ctx.getImageData(0, 0, width, height), delay: frames[i].duration })), width, height);
+}
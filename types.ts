@@ -0,0 +1,91 @@
+// Shared app-level types
+import { ProviderSettings, SafetyRating } from './services/providers';
+import type { CanvasDocument } from './components/DrawingCanvas';
+
+export type CandidateStatus = 'pending' | 'done' | 'error';
+
+/** One slot in a multi-variation generation run. */
+export interface Candidate {
+  id: string;
+  status: CandidateStatus;
+  image?: string;
+  error?: string;
+  /** Progress note while pending, e.g. that a retry is scheduled. */
+  note?: string;
+  /** What the model said alongside (or instead of) the image. */
+  text?: string[];
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+}
+
+/** Inputs of a generation run, kept so slots can be re-rolled and runs repeated. */
+export interface GenerationRequest {
+  prompt: string;
+  /** Base64 PNG of the flattened sketch. */
+  image: string;
+  /** Base64 black/white inpainting mask. */
+  mask?: string;
+  references?: ReferenceImage[];
+  systemInstruction?: string;
+  settings: ProviderSettings;
+}
+
+/** An extra image in the reference tray, sent after the sketch. */
+export interface ReferenceImage {
+  id: string;
+  name: string;
+  /** Base64 payload without the data URL header. */
+  data: string;
+  mimeType: string;
+  /** Optional label telling the model what to use it for. */
+  role: string;
+}
+
+/** One exchange in a refinement session. */
+export interface SessionTurn {
+  id: string;
+  /** The turn this one continues from; null for the first. Several children make a branch. */
+  parentId: string | null;
+  prompt: string;
+  /** Base64 PNG sent with this turn: the sketch on the first turn, none on follow-ups. */
+  image?: string;
+  /** Data URL of the result. */
+  result?: string;
+  text?: string[];
+  status: CandidateStatus;
+  error?: string;
+  createdAt: number;
+}
+
+/** A chat-style edit thread, started from one result. */
+export interface EditSession {
+  turns: SessionTurn[];
+  /** Head of the thread: follow-ups continue from this turn. */
+  activeId: string;
+  settings: ProviderSettings;
+  systemInstruction?: string;
+}
+
+/** One keyframe of an animated storyboard. */
+export interface StoryboardFrame {
+  id: string;
+  /** Data URL of the flattened sketch drawn for this frame. */
+  sketch: string;
+  /** The frame's layers and mask, so switching frames doesn't flatten them. */
+  document: CanvasDocument;
+  /** Extra direction for just this frame, added to the shared prompt. */
+  note: string;
+  /** How long the frame is shown in the animation, in milliseconds. */
+  duration: number;
+  /** Data URL of the generated frame. */
+  result?: string;
+  /** Unset until the frame is generated for the first time. */
+  status?: CandidateStatus;
+  error?: string;
+}
+
+/** Keyframes in playback order; the active one is the frame on the canvas. */
+export interface Storyboard {
+  frames: StoryboardFrame[];
+  activeId: string;
+}
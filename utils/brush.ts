@@ -0,0 +1,345 @@
+// Brush engine. Plain pens keep drawing straight onto the layer through the path renderer in
+// stroke.ts. Everything else paints the stroke into a buffer first and composites it onto the
+// layer with the brush opacity, so overlaps inside one stroke never build up (marker,
+// highlighter) while soft, textured or scattered dabs still can (airbrush, charcoal).
+// Live drawing and history replay share these functions, so replayed strokes match exactly.
+import { StrokePoint, StrokeStyle, drawStrokeSegment, widthAt } from './stroke';
+import { Surface, createSurface } from './layers';
+
+export type BrushTip = 'round' | 'chisel';
+export type BrushBlend = 'normal' | 'multiply';
+
+export interface BrushSettings {
+  tip: BrushTip;
+  /** Strength of the whole stroke, 0..1. Overlaps within one stroke never go past it. */
+  opacity: number;
+  /** Strength of each dab, 0..1. Overlapping dabs build up towards `opacity`. */
+  flow: number;
+  /** 1 is a crisp edge, 0 fades all the way from the centre. */
+  hardness: number;
+  /** Distance between dabs as a fraction of the brush width. */
+  spacing: number;
+  /** How much paper texture breaks up the stroke, 0..1. */
+  grain: number;
+  /** Random dab offset as a fraction of the brush width, for dusty, broken edges. */
+  scatter: number;
+  blend: BrushBlend;
+}
+
+export interface BrushPreset {
+  id: string;
+  name: string;
+  settings: BrushSettings;
+}
+
+export const DEFAULT_BRUSH: BrushSettings = {
+  tip: 'round',
+  opacity: 1,
+  flow: 1,
+  hardness: 1,
+  spacing: 0.1,
+  grain: 0,
+  scatter: 0,
+  blend: 'normal',
+};
+
+export const BRUSH_PRESETS: BrushPreset[] = [
+  { id: 'pen', name: 'Pen', settings: DEFAULT_BRUSH },
+  { id: 'pencil', name: 'Pencil', settings: { ...DEFAULT_BRUSH, opacity: 0.85, hardness: 0.8, spacing: 0.15, grain: 0.6 } },
+  { id: 'marker', name: 'Marker', settings: { ...DEFAULT_BRUSH, opacity: 0.55 } },
+  { id: 'airbrush', name: 'Airbrush', settings: { ...DEFAULT_BRUSH, flow: 0.12, hardness: 0, spacing: 0.08 } },
+  { id: 'charcoal', name: 'Charcoal', settings: { ...DEFAULT_BRUSH, opacity: 0.9, flow: 0.6, hardness: 0.4, spacing: 0.12, grain: 0.85, scatter: 0.12 } },
+  { id: 'highlighter', name: 'Highlighter', settings: { ...DEFAULT_BRUSH, tip: 'chisel', opacity: 0.45, spacing: 0.05, blend: 'multiply' } },
+];
+
+const unit = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/** Fills in and clamps brush settings read from storage or a project file. */
+export const normalizeBrush = (value: unknown): BrushSettings => {
+  const data = isRecord(value) ? value : {};
+  return {
+    tip: data.tip === 'chisel' ? 'chisel' : 'round',
+    opacity: unit(data.opacity, DEFAULT_BRUSH.opacity),
+    flow: Math.max(0.01, unit(data.flow, DEFAULT_BRUSH.flow)),
+    hardness: unit(data.hardness, DEFAULT_BRUSH.hardness),
+    spacing: Math.max(0.02, unit(data.spacing, DEFAULT_BRUSH.spacing)),
+    grain: unit(data.grain, DEFAULT_BRUSH.grain),
+    scatter: unit(data.scatter, DEFAULT_BRUSH.scatter),
+    blend: data.blend === 'multiply' ? 'multiply' : 'normal',
+  };
+};
+
+export const sameBrush = (a: BrushSettings, b: BrushSettings) =>
+  (Object.keys(DEFAULT_BRUSH) as (keyof BrushSettings)[]).every(key => a[key] === b[key]);
+
+// A continuous round stroke; these go through the path renderer instead of dabs
+const isSolid = (b: BrushSettings) => b.tip === 'round' && b.hardness >= 1 && b.flow >= 1 && b.scatter <= 0;
+
+/** True when the brush draws exactly like the original pen, straight onto the layer. */
+export const isPlainBrush = (b: BrushSettings) => isSolid(b) && b.opacity >= 1 && b.grain <= 0 && b.blend === 'normal';
+
+// Highlighter nibs are held at a fixed angle, like the real thing
+const CHISEL_ANGLE = -Math.PI / 6;
+const CHISEL_ASPECT = 0.3;
+const MAX_SPRITE_SIZE = 256;
+const GRAIN_TILE_SIZE = 128;
+
+interface Rect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface BrushStroke {
+  settings: BrushSettings;
+  style: StrokeStyle;
+  /** The stroke at full strength, composited onto the layer by `presentBrushStroke`. */
+  buffer: Surface;
+  /** The layer as it was when the stroke started; only kept while drawing live. */
+  base: Surface | null;
+  /** One dab, drawn at the brush width. Null for solid brushes. */
+  sprite: HTMLCanvasElement | null;
+  /** Dab state per stroke copy (the stroke itself plus its symmetry mirrors). */
+  trails: { carry: number; dabs: number }[];
+  /** Area changed since the last present. */
+  dirty: Rect | null;
+}
+
+// Only one stroke is ever in progress, so the working canvases are shared and reused
+const pool = new Map<string, Surface>();
+
+const pooledSurface = (name: string, width: number, height: number) => {
+  let surface = pool.get(name);
+  if (!surface || surface.canvas.width !== width || surface.canvas.height !== height) {
+    surface = createSurface(width, height);
+    pool.set(name, surface);
+  }
+  return surface;
+};
+
+// Deterministic 0..1 noise from an integer, so replayed dabs land where the live ones did
+const hash = (n: number) => {
+  let h = Math.imul(n ^ 0x9e3779b9, 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+// Paper tooth: soft value noise whose alpha is how much of the stroke shows through
+const grainTiles = new Map<number, HTMLCanvasElement>();
+
+const grainTile = (grain: number) => {
+  const cached = grainTiles.get(grain);
+  if (cached) return cached;
+  const coarse = createSurface(GRAIN_TILE_SIZE / 2, GRAIN_TILE_SIZE / 2);
+  const noise = coarse.ctx.createImageData(GRAIN_TILE_SIZE / 2, GRAIN_TILE_SIZE / 2);
+  for (let i = 0; i < noise.data.length; i += 4) {
+    noise.data[i] = noise.data[i + 1] = noise.data[i + 2] = 255;
+    // Skewed towards the bright end so most of the paper still takes the pencil
+    noise.data[i + 3] = Math.round(255 * Math.min(1, Math.max(0, 1 - grain * 1.4 * hash(i / 4) ** 1.5)));
+  }
+  coarse.ctx.putImageData(noise, 0, 0);
+  const tile = createSurface(GRAIN_TILE_SIZE, GRAIN_TILE_SIZE);
+  tile.ctx.imageSmoothingEnabled = true;
+  tile.ctx.drawImage(coarse.canvas, 0, 0, GRAIN_TILE_SIZE, GRAIN_TILE_SIZE);
+  grainTiles.set(grain, tile.canvas);
+  return tile.canvas;
+};
+
+// One dab in the brush colour: a soft or hard disc, or a flat angled nib
+const createSprite = (settings: BrushSettings, style: StrokeStyle) => {
+  const size = Math.max(8, Math.min(MAX_SPRITE_SIZE, Math.ceil(style.size * 2)));
+  const { canvas, ctx } = createSurface(size, size);
+  const r = size / 2;
+  const hardness = Math.min(0.99, settings.hardness);
+
+  if (settings.tip === 'chisel') {
+    const half = r * CHISEL_ASPECT;
+    ctx.translate(r, r);
+    ctx.rotate(CHISEL_ANGLE);
+    const edge = ctx.createLinearGradient(-half, 0, half, 0);
+    edge.addColorStop(0, 'rgba(0,0,0,0)');
+    edge.addColorStop((1 - hardness) / 2, 'rgba(0,0,0,1)');
+    edge.addColorStop(1 - (1 - hardness) / 2, 'rgba(0,0,0,1)');
+    edge.addColorStop(1, 'rgba(0,0,0,0)');
+    ctx.fillStyle = settings.hardness >= 1 ? '#000' : edge;
+    ctx.fillRect(-half, -r * 0.95, half * 2, r * 1.9);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+  } else {
+    const falloff = ctx.createRadialGradient(r, r, r * hardness, r, r, r);
+    falloff.addColorStop(0, 'rgba(0,0,0,1)');
+    falloff.addColorStop(1, 'rgba(0,0,0,0)');
+    ctx.fillStyle = settings.hardness >= 1 ? '#000' : falloff;
+    ctx.beginPath();
+    ctx.arc(r, r, r, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Tint the alpha shape with the brush colour
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = style.color;
+  ctx.fillRect(0, 0, size, size);
+  return canvas;
+};
+
+const include = (stroke: BrushStroke, x: number, y: number, reach: number) => {
+  const d = stroke.dirty;
+  const x0 = Math.floor(x - reach), y0 = Math.floor(y - reach);
+  const x1 = Math.ceil(x + reach), y1 = Math.ceil(y + reach);
+  stroke.dirty = d
+    ? { x0: Math.min(d.x0, x0), y0: Math.min(d.y0, y0), x1: Math.max(d.x1, x1), y1: Math.max(d.y1, y1) }
+    : { x0, y0, x1, y1 };
+};
+
+/**
+ * Starts a stroke with a non-plain brush; returns null when the brush draws like the plain pen,
+ * which keeps painting straight onto the layer. `live` snapshots the layer for previews.
+ */
+export const beginBrushStroke = (target: Surface, settings: BrushSettings, style: StrokeStyle, live: boolean): BrushStroke | null => {
+  if (isPlainBrush(settings)) return null;
+  const { width, height } = target.canvas;
+  let base: Surface | null = null;
+  if (live) {
+    base = pooledSurface('base', width, height);
+    base.ctx.clearRect(0, 0, width, height);
+    base.ctx.drawImage(target.canvas, 0, 0);
+  }
+  const buffer = pooledSurface('buffer', width, height);
+  buffer.ctx.clearRect(0, 0, width, height);
+  return {
+    settings,
+    style,
+    buffer,
+    base,
+    sprite: isSolid(settings) ? null : createSprite(settings, style),
+    trails: [],
+    dirty: null,
+  };
+};
+
+const stampDab = (stroke: BrushStroke, trail: { dabs: number }, x: number, y: number, pressure: number) => {
+  const { settings, style, buffer, sprite } = stroke;
+  const w = widthAt(style.size, pressure);
+  const n = trail.dabs++;
+  const jitter = settings.scatter * w;
+  const dx = jitter ? (hash(n * 3 + 1) - 0.5) * 2 * jitter : 0;
+  const dy = jitter ? (hash(n * 3 + 2) - 0.5) * 2 * jitter : 0;
+  buffer.ctx.globalAlpha = settings.flow * (settings.scatter > 0 ? 1 - 0.5 * hash(n * 3 + 3) : 1);
+  buffer.ctx.drawImage(sprite!, x + dx - w / 2, y + dy - w / 2, w, w);
+  buffer.ctx.globalAlpha = 1;
+  include(stroke, x + dx, y + dy, w / 2 + 1);
+};
+
+// Walks a straight piece of the path, placing a dab every `spacing` of the brush width
+const dabAlong = (stroke: BrushStroke, trail: { carry: number; dabs: number }, a: StrokePoint, b: StrokePoint) => {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  const step = (pressure: number) => Math.max(1, stroke.settings.spacing * widthAt(stroke.style.size, pressure));
+  let d = trail.carry;
+  while (d <= length) {
+    const t = length > 0 ? d / length : 0;
+    const pressure = a.pressure + (b.pressure - a.pressure) * t;
+    stampDab(stroke, trail, a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t, pressure);
+    d += step(pressure);
+  }
+  trail.carry = d - length;
+};
+
+const mid = (a: StrokePoint, b: StrokePoint): StrokePoint => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, pressure: (a.pressure + b.pressure) / 2 });
+
+// Dabs along the quadratic from `from` to `to`, flattened into short straight pieces
+const dabCurve = (stroke: BrushStroke, trail: { carry: number; dabs: number }, from: StrokePoint, control: StrokePoint, to: StrokePoint) => {
+  const steps = Math.max(1, Math.ceil((Math.hypot(control.x - from.x, control.y - from.y) + Math.hypot(to.x - control.x, to.y - control.y)) / 2));
+  let prev = from;
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps, u = 1 - t;
+    const next = {
+      x: u * u * from.x + 2 * u * t * control.x + t * t * to.x,
+      y: u * u * from.y + 2 * u * t * control.y + t * t * to.y,
+      pressure: from.pressure + (to.pressure - from.pressure) * t,
+    };
+    dabAlong(stroke, trail, prev, next);
+    prev = next;
+  }
+};
+
+/**
+ * Paints the piece of one stroke copy that becomes known once points[index] arrives, following
+ * the same midpoint curves as drawStrokeSegment. `copy` tells the stroke and its mirrors apart.
+ */
+export const drawBrushSegment = (stroke: BrushStroke, copy: number, points: StrokePoint[], index: number) => {
+  const n = points.length;
+  if (n === 0) return;
+  const reach = stroke.style.size / 2 + 2;
+  const around = points.slice(Math.max(0, index - 2), Math.min(n, index + 1));
+
+  if (!stroke.sprite) {
+    drawStrokeSegment(stroke.buffer.ctx, points, index, { ...stroke.style, erase: false });
+    around.forEach(p => include(stroke, p.x, p.y, reach));
+    return;
+  }
+
+  const trail = stroke.trails[copy] ??= { carry: 0, dabs: copy * 100003 };
+  if (index === 0) {
+    trail.carry = 0;
+    dabAlong(stroke, trail, points[0], points[0]);
+  } else if (index >= n) {
+    if (n >= 2) dabAlong(stroke, trail, mid(points[n - 2], points[n - 1]), points[n - 1]);
+  } else if (index === 1) {
+    dabAlong(stroke, trail, points[0], mid(points[0], points[1]));
+  } else {
+    dabCurve(stroke, trail, mid(points[index - 2], points[index - 1]), points[index - 1], mid(points[index - 1], points[index]));
+  }
+};
+
+/**
+ * Composites what changed since the last call onto `ctx`. While drawing live the area is first
+ * restored from the snapshot, so the whole stroke is only ever applied once.
+ */
+export const presentBrushStroke = (stroke: BrushStroke, ctx: CanvasRenderingContext2D) => {
+  const d = stroke.dirty;
+  stroke.dirty = null;
+  if (!d) return;
+  const { width, height } = stroke.buffer.canvas;
+  const x = Math.max(0, d.x0), y = Math.max(0, d.y0);
+  const w = Math.min(width, d.x1) - x, h = Math.min(height, d.y1) - y;
+  if (w <= 0 || h <= 0) return;
+
+  const { settings, style } = stroke;
+  let source = stroke.buffer.canvas;
+  if (settings.grain > 0) {
+    // Knock the paper texture out of a copy, anchored to the document so it doesn't crawl
+    const scratch = pooledSurface('scratch', width, height);
+    scratch.ctx.save();
+    scratch.ctx.clearRect(x, y, w, h);
+    scratch.ctx.drawImage(source, x, y, w, h, x, y, w, h);
+    scratch.ctx.globalCompositeOperation = 'destination-in';
+    scratch.ctx.fillStyle = scratch.ctx.createPattern(grainTile(settings.grain), 'repeat') ?? '#000';
+    scratch.ctx.fillRect(x, y, w, h);
+    scratch.ctx.restore();
+    source = scratch.canvas;
+  }
+
+  ctx.save();
+  if (stroke.base) {
+    ctx.clearRect(x, y, w, h);
+    ctx.drawImage(stroke.base.canvas, x, y, w, h, x, y, w, h);
+  }
+  ctx.globalAlpha = settings.opacity;
+  ctx.globalCompositeOperation = style.erase ? 'destination-out' : settings.blend === 'multiply' ? 'multiply' : 'source-over';
+  ctx.drawImage(source, x, y, w, h, x, y, w, h);
+  ctx.restore();
+};
+
+/** Renders complete strokes (a stroke and its mirrors) with a brush, e.g. when replaying history. */
+export const drawBrushStroke = (target: Surface, copies: StrokePoint[][], settings: BrushSettings, style: StrokeStyle) => {
+  const stroke = beginBrushStroke(target, settings, style, false);
+  if (!stroke) return false;
+  copies.forEach((points, copy) => {
+    for (let i = 0; i <= points.length; i++) drawBrushSegment(stroke, copy, points, i);
+  });
+  presentBrushStroke(stroke, target.ctx);
+  return true;
+};
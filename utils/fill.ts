@@ -0,0 +1,75 @@
+// Scanline flood fill. The region is found on one image (usually the flattened
+// drawing, so outlines on other layers still act as borders) and painted onto another.
+
+const parseHexColor = (color: string): [number, number, number] => {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+  const value = parseInt(full, 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/**
+ * Returns a mask (1 = fill) of the pixels connected to (x, y) whose colour is within
+ * `tolerance` (0..255, per channel) of the seed pixel.
+ */
+export const findFillRegion = (source: ImageData, x: number, y: number, tolerance: number): Uint8Array | null => {
+  const { width, height, data } = source;
+  const startX = Math.floor(x);
+  const startY = Math.floor(y);
+  if (startX < 0 || startY < 0 || startX >= width || startY >= height) return null;
+
+  const seed = (startY * width + startX) * 4;
+  const [r, g, b, a] = [data[seed], data[seed + 1], data[seed + 2], data[seed + 3]];
+  const matches = (i: number) => {
+    const p = i * 4;
+    return Math.abs(data[p] - r) <= tolerance
+      && Math.abs(data[p + 1] - g) <= tolerance
+      && Math.abs(data[p + 2] - b) <= tolerance
+      && Math.abs(data[p + 3] - a) <= tolerance;
+  };
+
+  const region = new Uint8Array(width * height);
+  const stack = [startY * width + startX];
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    const rowY = Math.floor(index / width);
+    let left = index;
+    while (left % width > 0 && !region[left - 1] && matches(left - 1)) left--;
+
+    let aboveOpen = false;
+    let belowOpen = false;
+    for (let i = left; i < rowY * width + width && !region[i] && matches(i); i++) {
+      region[i] = 1;
+      // Only push the first pixel of each run above/below to keep the stack small
+      if (rowY > 0) {
+        const above = i - width;
+        const open = !region[above] && matches(above);
+        if (open && !aboveOpen) stack.push(above);
+        aboveOpen = open;
+      }
+      if (rowY < height - 1) {
+        const below = i + width;
+        const open = !region[below] && matches(below);
+        if (open && !belowOpen) stack.push(below);
+        belowOpen = open;
+      }
+    }
+  }
+  return region;
+};
+
+/** Paints `color` into every pixel of the region on the target context. */
+export const paintRegion = (target: CanvasRenderingContext2D, region: Uint8Array, color: string) => {
+  const { width, height } = target.canvas;
+  const image = target.getImageData(0, 0, width, height);
+  const [r, g, b] = parseHexColor(color);
+  for (let i = 0; i < region.length; i++) {
+    if (!region[i]) continue;
+    const p = i * 4;
+    image.data[p] = r;
+    image.data[p + 1] = g;
+    image.data[p + 2] = b;
+    image.data[p + 3] = 255;
+  }
+  target.putImageData(image, 0, 0);
+};
@@ -0,0 +1,187 @@
+// Minimal animated GIF encoder: one global 256-colour palette built by median cut over all
+// frames, LZW-compressed frames with per-frame delays, looping forever.
+
+export interface GifFrame {
+  data: ImageData;
+  /** Display time in milliseconds (GIF stores hundredths of a second). */
+  delay: number;
+}
+
+type Box = { colors: number[] };
+
+// Colours are bucketed to 5 bits per channel: 32768 bins, small enough to count exactly
+const toBin = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+const binChannel = (bin: number, shift: number) => (((bin >> shift) & 31) << 3) | 4;
+
+// Median cut over the histogram, weighted by pixel count
+function buildPalette(frames: GifFrame[], size: number): number[][] {
+  const counts = new Uint32Array(32768);
+  for (const { data } of frames) {
+    const px = data.data;
+    for (let i = 0; i < px.length; i += 4) counts[toBin(px[i], px[i + 1], px[i + 2])]++;
+  }
+  const used: number[] = [];
+  counts.forEach((count, bin) => count && used.push(bin));
+
+  const boxes: Box[] = [{ colors: used }];
+  while (boxes.length < size) {
+    // Split the box with the widest channel range
+    let best = -1, bestRange = 0, bestShift = 0;
+    boxes.forEach((box, index) => {
+      if (box.colors.length < 2) return;
+      for (const shift of [10, 5, 0]) {
+        let min = 31, max = 0;
+        for (const bin of box.colors) {
+          const v = (bin >> shift) & 31;
+          if (v < min) min = v;
+          if (v > max) max = v;
+        }
+        if (max - min > bestRange) {
+          best = index;
+          bestRange = max - min;
+          bestShift = shift;
+        }
+      }
+    });
+    if (best < 0) break;
+
+    const colors = boxes[best].colors.sort((a, b) => ((a >> bestShift) & 31) - ((b >> bestShift) & 31));
+    const total = colors.reduce((sum, bin) => sum + counts[bin], 0);
+    let seen = 0, cut = 1;
+    for (; cut < colors.length - 1; cut++) {
+      seen += counts[colors[cut - 1]];
+      if (seen >= total / 2) break;
+    }
+    boxes.splice(best, 1, { colors: colors.slice(0, cut) }, { colors: colors.slice(cut) });
+  }
+
+  return boxes.map(({ colors }) => {
+    let r = 0, g = 0, b = 0, n = 0;
+    for (const bin of colors) {
+      const c = counts[bin];
+      r += binChannel(bin, 10) * c;
+      g += binChannel(bin, 5) * c;
+      b += binChannel(bin, 0) * c;
+      n += c;
+    }
+    return n ? [Math.round(r / n), Math.round(g / n), Math.round(b / n)] : [0, 0, 0];
+  });
+}
+
+// Maps every pixel to its nearest palette entry, memoized per histogram bin
+function indexPixels(data: ImageData, palette: number[][], cache: Int16Array) {
+  const px = data.data;
+  const out = new Uint8Array(px.length / 4);
+  for (let i = 0, p = 0; i < px.length; i += 4, p++) {
+    const bin = toBin(px[i], px[i + 1], px[i + 2]);
+    let index = cache[bin];
+    if (index < 0) {
+      const r = binChannel(bin, 10), g = binChannel(bin, 5), b = binChannel(bin, 0);
+      let bestDistance = Infinity;
+      palette.forEach(([pr, pg, pb], j) => {
+        const d = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+        if (d < bestDistance) {
+          bestDistance = d;
+          index = j;
+        }
+      });
+      cache[bin] = index;
+    }
+    out[p] = index;
+  }
+  return out;
+}
+
+// Variable-width LZW as GIF wants it, packed into 255-byte sub-blocks
+function lzwEncode(indices: Uint8Array, minCodeSize: number, out: number[]) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const block: number[] = [];
+  let bits = 0, bitCount = 0;
+  const write = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    write(prefix);
+    if (nextCode < 4096) {
+      table.set(key, nextCode++);
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      // Table full: start over
+      write(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+  write(prefix);
+  write(endCode);
+  if (bitCount > 0) block.push(bits & 0xff);
+
+  out.push(minCodeSize);
+  for (let i = 0; i < block.length; i += 255) {
+    const chunk = block.slice(i, i + 255);
+    out.push(chunk.length, ...chunk);
+  }
+  out.push(0);
+}
+
+/** Encodes frames of equal size into a looping GIF. */
+export function encodeGif(frames: GifFrame[], width: number, height: number): Blob {
+  const palette = buildPalette(frames, 256);
+  while (palette.length < 256) palette.push([0, 0, 0]);
+  const cache = new Int16Array(32768).fill(-1);
+
+  const out: number[] = [];
+  const push16 = (n: number) => out.push(n & 0xff, (n >> 8) & 0xff);
+  const pushString = (s: string) => { for (const ch of s) out.push(ch.charCodeAt(0)); };
+
+  pushString('GIF89a');
+  push16(width);
+  push16(height);
+  out.push(0xf7, 0, 0); // global colour table, 8 bits per channel, 256 entries
+  palette.forEach(([r, g, b]) => out.push(r, g, b));
+
+  // NETSCAPE2.0 application extension: loop forever
+  out.push(0x21, 0xff, 11);
+  pushString('NETSCAPE2.0');
+  out.push(3, 1, 0, 0, 0);
+
+  for (const frame of frames) {
+    // Graphic control extension with the delay
+    out.push(0x21, 0xf9, 4, 0);
+    push16(Math.max(2, Math.round(frame.delay / 10)));
+    out.push(0, 0);
+    // Image descriptor covering the whole canvas, using the global palette
+    out.push(0x2c);
+    push16(0);
+    push16(0);
+    push16(width);
+    push16(height);
+    out.push(0);
+    lzwEncode(indexPixels(frame.data, palette, cache), 8, out);
+  }
+  out.push(0x3b);
+  return new Blob([new Uint8Array(out)], { type: 'image/gif' });
+}
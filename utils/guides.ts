@@ -0,0 +1,110 @@
+// Drawing aids: mirror/radial symmetry for freehand strokes, and composition and perspective
+// guides that strokes can snap to. Guides are only ever drawn on the overlay, never on layers.
+import { Point } from './shapes';
+import { StrokePoint } from './stroke';
+
+export type SymmetryMode = 'off' | 'vertical' | 'horizontal' | 'radial';
+export type GridMode = 'off' | 'thirds' | 'grid';
+export type PerspectiveMode = 'off' | 'one-point' | 'two-point';
+
+export interface GuideSettings {
+  symmetry: SymmetryMode;
+  /** Copies around the centre for radial symmetry, including the original stroke. */
+  radialSegments: number;
+  /** Mirror axis crossing / radial centre, as fractions of the document size. */
+  center: Point;
+  grid: GridMode;
+  /** Grid spacing in document pixels. */
+  gridSize: number;
+  perspective: PerspectiveMode;
+  /** Vanishing points as fractions of the document size; one-point perspective uses the first. */
+  vanishingPoints: [Point, Point];
+  /** Straighten strokes along the perspective guides. */
+  snap: boolean;
+}
+
+export const DEFAULT_GUIDES: GuideSettings = {
+  symmetry: 'off',
+  radialSegments: 6,
+  center: { x: 0.5, y: 0.5 },
+  grid: 'off',
+  gridSize: 64,
+  perspective: 'off',
+  vanishingPoints: [{ x: 0.15, y: 0.4 }, { x: 0.85, y: 0.4 }],
+  snap: false,
+};
+
+export const MIN_RADIAL_SEGMENTS = 2;
+export const MAX_RADIAL_SEGMENTS = 16;
+
+// How far the pen travels before a snapped stroke commits to a direction, in document pixels
+export const SNAP_LOCK_DISTANCE = 8;
+
+type Size = { width: number; height: number };
+
+const toDocument = ({ x, y }: Point, { width, height }: Size): Point => ({ x: x * width, y: y * height });
+
+/** Mirror (or rotated) copies of a point; the original isn't included. */
+export const symmetryTransforms = (guides: GuideSettings, size: Size): ((p: StrokePoint) => StrokePoint)[] => {
+  const c = toDocument(guides.center, size);
+  switch (guides.symmetry) {
+    case 'vertical':
+      return [p => ({ ...p, x: 2 * c.x - p.x })];
+    case 'horizontal':
+      return [p => ({ ...p, y: 2 * c.y - p.y })];
+    case 'radial': {
+      const segments = Math.min(MAX_RADIAL_SEGMENTS, Math.max(MIN_RADIAL_SEGMENTS, Math.round(guides.radialSegments)));
+      return Array.from({ length: segments - 1 }, (_, i) => {
+        const angle = (2 * Math.PI * (i + 1)) / segments;
+        const cos = Math.cos(angle), sin = Math.sin(angle);
+        return (p: StrokePoint) => ({
+          ...p,
+          x: c.x + (p.x - c.x) * cos - (p.y - c.y) * sin,
+          y: c.y + (p.x - c.x) * sin + (p.y - c.y) * cos,
+        });
+      });
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Straight-line directions a stroke starting at `start` may follow: towards each vanishing
+ * point, plus verticals (and horizontals in one-point perspective).
+ */
+export const snapDirections = (guides: GuideSettings, size: Size, start: Point): Point[] => {
+  if (guides.perspective === 'off') return [];
+  const points = guides.perspective === 'one-point' ? guides.vanishingPoints.slice(0, 1) : guides.vanishingPoints;
+  const directions = points
+    .map(vp => toDocument(vp, size))
+    .map(vp => ({ x: vp.x - start.x, y: vp.y - start.y }))
+    .filter(d => Math.hypot(d.x, d.y) > 1e-6)
+    .map(d => ({ x: d.x / Math.hypot(d.x, d.y), y: d.y / Math.hypot(d.x, d.y) }));
+  directions.push({ x: 0, y: 1 });
+  if (guides.perspective === 'one-point') directions.push({ x: 1, y: 0 });
+  return directions;
+};
+
+/** The direction closest to the way the pen is moving (either way along it). */
+export const closestDirection = (directions: Point[], movement: Point): Point | null => {
+  let best: Point | null = null, bestDot = -1;
+  const length = Math.hypot(movement.x, movement.y) || 1;
+  for (const d of directions) {
+    const dot = Math.abs(d.x * movement.x + d.y * movement.y) / length;
+    if (dot > bestDot) {
+      bestDot = dot;
+      best = d;
+    }
+  }
+  return best;
+};
+
+/** Moves a point onto the line through `origin` along the unit vector `direction`. */
+export const projectOntoLine = <P extends Point>(point: P, origin: Point, direction: Point): P => {
+  const t = (point.x - origin.x) * direction.x + (point.y - origin.y) * direction.y;
+  return { ...point, x: origin.x + direction.x * t, y: origin.y + direction.y * t };
+};
+
+export const hasGuides = (guides: GuideSettings) =>
+  guides.symmetry !== 'off' || guides.grid !== 'off' || guides.perspective !== 'off';
@@ -0,0 +1,138 @@
+// Generic undo/redo history built on an operation log.
+// Instead of snapshotting the surface after every change, we keep the list of
+// operations and only capture a full snapshot every few operations. Undo restores
+// the nearest checkpoint and replays the remaining operations on top of it, which
+// keeps memory bounded even for long drawing sessions.
+
+export interface HistoryAdapter<Op, Snapshot> {
+  /** Capture the current state of the surface. */
+  capture: () => Snapshot;
+  /** Put the surface back into a previously captured state. */
+  restore: (snapshot: Snapshot) => void;
+  /** Re-apply a single recorded operation onto the surface. */
+  apply: (op: Op) => void;
+}
+
+export interface HistoryOptions {
+  /** Maximum number of operations kept before the oldest are folded into the base snapshot. */
+  maxOperations?: number;
+  /** Take a checkpoint snapshot every N operations. */
+  checkpointInterval?: number;
+}
+
+export class OperationHistory<Op, Snapshot> {
+  private adapter: HistoryAdapter<Op, Snapshot>;
+  private maxOperations: number;
+  private checkpointInterval: number;
+
+  private base: Snapshot | null = null;
+  private operations: Op[] = [];
+  // Keyed by the number of operations applied when the snapshot was taken.
+  private checkpoints = new Map<number, Snapshot>();
+  private cursor = 0;
+
+  constructor(adapter: HistoryAdapter<Op, Snapshot>, options: HistoryOptions = {}) {
+    this.adapter = adapter;
+    this.maxOperations = options.maxOperations ?? 100;
+    this.checkpointInterval = Math.max(1, options.checkpointInterval ?? 20);
+  }
+
+  /** Forget everything and use the current surface as the new starting point. */
+  reset() {
+    this.base = this.adapter.capture();
+    this.operations = [];
+    this.checkpoints.clear();
+    this.cursor = 0;
+  }
+
+  /** Record an operation that has already been applied to the surface. */
+  push(op: Op) {
+    if (this.base === null) this.reset();
+
+    // A new operation invalidates anything that could have been redone.
+    if (this.cursor < this.operations.length) {
+      this.operations.length = this.cursor;
+      for (const key of Array.from(this.checkpoints.keys())) {
+        if (key > this.cursor) this.checkpoints.delete(key);
+      }
+    }
+
+    this.operations.push(op);
+    this.cursor = this.operations.length;
+
+    if (this.cursor % this.checkpointInterval === 0) {
+      this.checkpoints.set(this.cursor, this.adapter.capture());
+    }
+
+    this.trim();
+  }
+
+  canUndo() {
+    return this.cursor > 0;
+  }
+
+  canRedo() {
+    return this.cursor < this.operations.length;
+  }
+
+  undo(): boolean {
+    if (!this.canUndo()) return false;
+    this.cursor--;
+    this.rebuild(this.cursor);
+    return true;
+  }
+
+  redo(): boolean {
+    if (!this.canRedo()) return false;
+    this.adapter.apply(this.operations[this.cursor]);
+    this.cursor++;
+    return true;
+  }
+
+  /** Throws away anything drawn on the surface since the last recorded operation. */
+  revert() {
+    this.rebuild(this.cursor);
+  }
+
+  /** Operations from the base snapshot up to the current position. */
+  getOperations(): Op[] {
+    return this.operations.slice(0, this.cursor);
+  }
+
+  private rebuild(target: number) {
+    let start = 0;
+    let snapshot = this.base;
+    for (const [key, value] of this.checkpoints) {
+      if (key <= target && key > start) {
+        start = key;
+        snapshot = value;
+      }
+    }
+    if (snapshot === null) return;
+
+    this.adapter.restore(snapshot);
+    for (let i = start; i < target; i++) {
+      this.adapter.apply(this.operations[i]);
+    }
+  }
+
+  // Fold the oldest operations into the base snapshot once we exceed the limit.
+  // We always cut at a checkpoint so we never need to re-render to build the new base.
+  private trim() {
+    while (this.operations.length > this.maxOperations) {
+      const keys = Array.from(this.checkpoints.keys()).sort((a, b) => a - b);
+      const cut = keys.find(key => key > 0 && key <= this.cursor);
+      if (cut === undefined) return;
+
+      this.base = this.checkpoints.get(cut)!;
+      this.operations.splice(0, cut);
+      this.cursor -= cut;
+
+      const shifted = new Map<number, Snapshot>();
+      for (const [key, value] of this.checkpoints) {
+        if (key > cut) shifted.set(key - cut, value);
+      }
+      this.checkpoints = shifted;
+    }
+  }
+}
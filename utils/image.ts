@@ -0,0 +1,144 @@
+// Small helpers for working with images as data URLs and canvases.
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  // Remote results must be CORS-enabled or reading their pixels will fail
+  if (!src.startsWith('data:') && !src.startsWith('blob:')) img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not decode image."));
+  img.src = src;
+});
+
+/** Splits a data URL into its MIME type and base64 payload. */
+export const parseDataURL = (url: string) => {
+  const match = /^data:([^;,]+)?(?:;base64)?,(.*)$/.exec(url);
+  return { mimeType: match?.[1] || 'image/png', data: match?.[2] || '' };
+};
+
+export const toDataURL = (data: string, mimeType = 'image/png') => `data:${mimeType};base64,${data}`;
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create a 2D canvas context.");
+  return { canvas, ctx };
+};
+
+/** Draws an image into a fresh canvas of the given size (stretched to fill) and returns its pixels. */
+export const rasterize = (img: CanvasImageSource, width: number, height: number) => {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+export const dataURLToBlob = async (url: string) => (await fetch(url)).blob();
+
+export const blobToDataURL = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error ?? new Error("Could not read file."));
+  reader.readAsDataURL(blob);
+});
+
+/** Triggers a browser download for a data/blob URL. */
+export const downloadURL = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+};
+
+// Browsers often leave File.type empty for HEIC, so fall back to the extension
+const EXTENSION_TYPES: Record<string, string> = {
+  heic: 'image/heic',
+  heif: 'image/heif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+};
+
+/** For file inputs: image/* alone hides HEIC files in some pickers. */
+export const IMAGE_ACCEPT = 'image/*,.heic,.heif';
+
+export const imageFileType = (file: File) =>
+  file.type || EXTENSION_TYPES[file.name.split('.').pop()?.toLowerCase() ?? ''] || '';
+
+export const isImageFile = (file: File) => imageFileType(file).startsWith('image/');
+
+export const extensionForMimeType = (mimeType: string) =>
+  Object.keys(EXTENSION_TYPES).find(ext => EXTENSION_TYPES[ext] === mimeType) ?? 'png';
+
+// SVGs without a width/height have no intrinsic size
+const SVG_FALLBACK_SIZE = 1024;
+
+/**
+ * Decodes an uploaded image into a canvas with its EXIF orientation applied.
+ * SVGs are rasterized; HEIC works wherever the browser can decode it (Safari).
+ */
+export async function decodeImageFile(file: Blob, type = file.type): Promise<HTMLCanvasElement> {
+  if (type === 'image/svg+xml') {
+    const url = URL.createObjectURL(new Blob([file], { type }));
+    try {
+      const img = await loadImage(url);
+      const { canvas, ctx } = createCanvas(img.naturalWidth || SVG_FALLBACK_SIZE, img.naturalHeight || SVG_FALLBACK_SIZE);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      return canvas;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(type === 'image/heic' || type === 'image/heif'
+      ? "This browser can't decode HEIC images. Convert it to JPEG or PNG first."
+      : "Could not decode image.");
+  }
+  const { canvas, ctx } = createCanvas(bitmap.width, bitmap.height);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+}
+
+// Accepted everywhere and never carry a rotation flag, so they're used as-is
+const PASSTHROUGH_TYPES = ['image/png', 'image/webp'];
+
+/** An uploaded file as a data URL every provider accepts, with the orientation baked into the pixels. */
+export async function imageFileToDataURL(file: File): Promise<string> {
+  const type = imageFileType(file);
+  if (PASSTHROUGH_TYPES.includes(type)) return blobToDataURL(file);
+  const canvas = await decodeImageFile(file, type);
+  return type === 'image/jpeg' ? canvas.toDataURL('image/jpeg', 0.92) : canvas.toDataURL('image/png');
+}
+
+/**
+ * Re-encodes a base64 image so neither side exceeds `maxSize`, optionally in another format.
+ * JPEG output is flattened onto white since it has no alpha. Returns the input untouched
+ * when it already fits and no conversion was asked for.
+ */
+export async function fitImageForUpload(
+  data: string,
+  mimeType: string,
+  { maxSize, targetType = mimeType, quality = 0.9 }: { maxSize: number; targetType?: string; quality?: number }
+): Promise<{ data: string; mimeType: string }> {
+  const img = await loadImage(toDataURL(data, mimeType));
+  const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+  if (scale === 1 && targetType === mimeType) return { data, mimeType };
+
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(img.width * scale)), Math.max(1, Math.round(img.height * scale)));
+  if (targetType === 'image/jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return parseDataURL(canvas.toDataURL(targetType, quality));
+}
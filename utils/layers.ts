@@ -0,0 +1,86 @@
+// Layer model for the drawing canvas.
+// Each layer owns an offscreen canvas; the visible canvas is just a composite of them.
+
+export type LayerKind = 'background' | 'drawing';
+
+export interface Layer {
+  id: string;
+  name: string;
+  kind: LayerKind;
+  visible: boolean;
+  opacity: number; // 0..1
+  locked: boolean;
+}
+
+export interface Surface {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+}
+
+export interface LayerSurface extends Surface {
+  layer: Layer;
+}
+
+export const PAPER_COLOR = '#ffffff';
+
+let layerCounter = 0;
+
+export const createLayerId = () => `layer-${Date.now().toString(36)}-${(layerCounter++).toString(36)}`;
+
+export const createLayer = (kind: LayerKind, name: string): Layer => ({
+  id: createLayerId(),
+  name,
+  kind,
+  visible: true,
+  opacity: 1,
+  locked: false,
+});
+
+/** Creates an offscreen canvas the size of the document. */
+export const createSurface = (width: number, height: number): Surface => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not create a 2D context for layer.');
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  return { canvas, ctx };
+};
+
+export const createLayerSurface = (layer: Layer, width: number, height: number): LayerSurface => ({
+  layer,
+  ...createSurface(width, height),
+});
+
+export const clearSurface = (surface: Surface) => {
+  const { ctx, canvas } = surface;
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.restore();
+};
+
+/**
+ * Flattens layers (bottom to top) onto a target context, on top of white paper.
+ * Works in raw pixels so the target only needs to match the layer canvas size.
+ */
+export const compositeLayers = (
+  target: CanvasRenderingContext2D,
+  surfaces: LayerSurface[],
+  include: (layer: Layer) => boolean = () => true
+) => {
+  const { width, height } = target.canvas;
+  target.save();
+  target.setTransform(1, 0, 0, 1, 0, 0);
+  target.globalAlpha = 1;
+  target.globalCompositeOperation = 'source-over';
+  target.fillStyle = PAPER_COLOR;
+  target.fillRect(0, 0, width, height);
+  for (const { layer, canvas } of surfaces) {
+    if (!layer.visible || layer.opacity <= 0 || !include(layer)) continue;
+    target.globalAlpha = layer.opacity;
+    target.drawImage(canvas, 0, 0);
+  }
+  target.restore();
+};
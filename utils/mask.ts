@@ -0,0 +1,86 @@
+// Inpainting masks.
+// On the canvas a mask is just opaque paint on a transparent surface. For the model
+// we export it as black (keep) / white (edit), and after generation we use it to
+// merge the result back so only masked pixels change.
+import { createCanvas, loadImage, rasterize } from './image';
+
+/** True when no pixel of the canvas has any alpha. */
+export const isCanvasEmpty = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 0) return false;
+  }
+  return true;
+};
+
+/** Renders the painted mask as a black/white PNG data URL (white = area to edit). */
+export const maskToDataURL = (mask: HTMLCanvasElement) => {
+  const { canvas, ctx } = createCanvas(mask.width, mask.height);
+  ctx.drawImage(mask, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Converts a black/white mask into the alpha convention used by OpenAI-style edit
+ * endpoints: transparent where the image should change, opaque elsewhere.
+ */
+export const maskToAlphaDataURL = async (maskUrl: string) => {
+  const img = await loadImage(maskUrl);
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+  const pixels = rasterize(img, img.width, img.height);
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    const editable = data[i] > 127;
+    data[i] = data[i + 1] = data[i + 2] = 0;
+    data[i + 3] = editable ? 0 : 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Scales the image to cover width x height without distorting it, cropping the overflow evenly
+const rasterizeCover = (img: HTMLImageElement, width: number, height: number) => {
+  const { ctx } = createCanvas(width, height);
+  const scale = Math.max(width / img.width, height / img.height);
+  const drawWidth = img.width * scale;
+  const drawHeight = img.height * scale;
+  ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Keeps the original pixels outside the mask exactly and takes the generated pixels
+ * inside it. The result is fitted to the original size first, since providers often
+ * return a different resolution or aspect ratio; it is cropped rather than stretched.
+ */
+export const compositeWithMask = async (originalUrl: string, resultUrl: string, maskUrl: string) => {
+  const [original, result, mask] = await Promise.all([loadImage(originalUrl), loadImage(resultUrl), loadImage(maskUrl)]);
+  const width = original.width;
+  const height = original.height;
+
+  const base = rasterize(original, width, height);
+  const generated = rasterizeCover(result, width, height).data;
+  const region = rasterize(mask, width, height).data;
+
+  const out = base.data;
+  for (let i = 0; i < out.length; i += 4) {
+    if (region[i] > 127) {
+      out[i] = generated[i];
+      out[i + 1] = generated[i + 1];
+      out[i + 2] = generated[i + 2];
+      out[i + 3] = generated[i + 3];
+    }
+  }
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.putImageData(base, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { addPngText, readPngText } from './pngText';
+import { crc32 } from './zip';
+
+// Signature plus an empty IEND chunk; enough for the text chunk code
+const EMPTY_PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82]);
+
+const textChunk = (keyword: string, text: string) => {
+  const data = new Uint8Array([...keyword, '\0', ...text].map(c => c.charCodeAt(0)));
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set([0x74, 0x45, 0x58, 0x74], 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+describe('readPngText', () => {
+  it('reads back what addPngText wrote', () => {
+    const png = addPngText(EMPTY_PNG, { prompt: 'Ein Baum im Schnee ❄', model: 'mock' });
+    expect(readPngText(png)).toEqual({ prompt: 'Ein Baum im Schnee ❄', model: 'mock' });
+  });
+
+  it('reads Latin-1 tEXt chunks, including large ones', () => {
+    const text = 'café '.repeat(100_000);
+    const chunk = textChunk('Comment', text);
+    const png = new Uint8Array(EMPTY_PNG.length + chunk.length);
+    png.set(EMPTY_PNG.subarray(0, 8), 0);
+    png.set(chunk, 8);
+    png.set(EMPTY_PNG.subarray(8), 8 + chunk.length);
+    expect(readPngText(png)).toEqual({ Comment: text });
+  });
+
+  it('returns nothing for other files', () => {
+    expect(readPngText(new Uint8Array([1, 2, 3]))).toEqual({});
+  });
+});
@@ -0,0 +1,74 @@
+// Reading and writing PNG text chunks. Written as iTXt (UTF-8, uncompressed) so prompts in
+// any language survive; plain tEXt chunks written by other tools are read too.
+import { crc32 } from './zip';
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const isPng = (bytes: Uint8Array) => SIGNATURE.every((b, i) => bytes[i] === b);
+
+// Spreading the bytes into String.fromCharCode overflows the call stack on large chunks
+const latin1Decoder = new TextDecoder('latin1');
+const latin1 = (bytes: Uint8Array) => latin1Decoder.decode(bytes);
+
+const chunk = (type: string, data: Uint8Array) => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+// keyword \0 compression-flag compression-method language \0 translated-keyword \0 text
+const itxtChunk = (keyword: string, text: string) => {
+  const key = new TextEncoder().encode(keyword.slice(0, 79));
+  const value = new TextEncoder().encode(text);
+  const data = new Uint8Array(key.length + 5 + value.length);
+  data.set(key, 0);
+  data.set(value, key.length + 5);
+  return chunk('iTXt', data);
+};
+
+/** Inserts text chunks right before IEND. Throws if the bytes aren't a PNG. */
+export function addPngText(png: Uint8Array, entries: Record<string, string>): Uint8Array {
+  if (!isPng(png)) throw new Error("Not a PNG image.");
+  const iend = png.length - 12;
+  const chunks = Object.entries(entries).map(([key, value]) => itxtChunk(key, value));
+  const size = chunks.reduce((sum, c) => sum + c.length, 0);
+  const out = new Uint8Array(png.length + size);
+  out.set(png.subarray(0, iend), 0);
+  let offset = iend;
+  chunks.forEach(c => {
+    out.set(c, offset);
+    offset += c.length;
+  });
+  out.set(png.subarray(iend), offset);
+  return out;
+}
+
+/** All uncompressed tEXt/iTXt entries of a PNG; empty for anything else. */
+export function readPngText(png: Uint8Array): Record<string, string> {
+  const entries: Record<string, string> = {};
+  if (!isPng(png)) return entries;
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  for (let offset = 8; offset + 12 <= png.length;) {
+    const length = view.getUint32(offset);
+    const type = latin1(png.subarray(offset + 4, offset + 8));
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    const keyEnd = data.indexOf(0);
+    if (type === 'tEXt' && keyEnd > 0) {
+      entries[latin1(data.subarray(0, keyEnd))] = latin1(data.subarray(keyEnd + 1));
+    } else if (type === 'iTXt' && keyEnd > 0 && data[keyEnd + 1] === 0) {
+      // Skip the language tag and translated keyword
+      const langEnd = data.indexOf(0, keyEnd + 3);
+      const translatedEnd = langEnd < 0 ? -1 : data.indexOf(0, langEnd + 1);
+      if (translatedEnd >= 0) {
+        entries[latin1(data.subarray(0, keyEnd))] = new TextDecoder().decode(data.subarray(translatedEnd + 1));
+      }
+    }
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return entries;
+}
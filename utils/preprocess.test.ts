@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Pixels, detectEdges, medianDenoise, normalizeContrast, otsuThreshold, removePaperTint, threshold } from './preprocess';
+
+// Builds an RGBA buffer from [r, g, b, a] tuples, row by row
+const rgba = (width: number, pixels: number[][]): Pixels => ({
+  data: new Uint8ClampedArray(pixels.flat()),
+  width,
+  height: pixels.length / width,
+});
+
+// Opaque grey image from rows of grey values
+const gray = (rows: number[][]): Pixels => rgba(rows[0].length, rows.flat().map(v => [v, v, v, 255]));
+
+// Grey value of every pixel, as rows
+const grayRows = ({ data, width, height }: Pixels) =>
+  Array.from({ length: height }, (_, y) => Array.from({ length: width }, (_, x) => data[(y * width + x) * 4]));
+
+describe('removePaperTint', () => {
+  it('scales the paper colour to white and the ink by the same factors', () => {
+    const paper = [200, 180, 160, 255];
+    const ink = [40, 36, 32, 128];
+    const source = rgba(5, [paper, paper, paper, paper, ink, paper, paper, paper, paper, paper]);
+    const out = removePaperTint(source);
+    expect(Array.from(out.data.slice(0, 4))).toEqual([255, 255, 255, 255]);
+    // 40 * 255/200, 36 * 255/180, 32 * 255/160; alpha is kept
+    expect(Array.from(out.data.slice(16, 20))).toEqual([51, 51, 51, 128]);
+  });
+});
+
+describe('normalizeContrast', () => {
+  it('stretches the darkest value to black and the lightest to white', () => {
+    expect(grayRows(normalizeContrast(gray([[100, 120, 200]])))).toEqual([[0, 51, 255]]);
+  });
+
+  it('leaves a flat image alone', () => {
+    expect(grayRows(normalizeContrast(gray([[90, 90], [90, 90]])))).toEqual([[90, 90], [90, 90]]);
+  });
+});
+
+describe('medianDenoise', () => {
+  it('removes a single speck', () => {
+    const out = medianDenoise(gray([[255, 255, 255], [255, 0, 255], [255, 255, 255]]));
+    expect(grayRows(out)).toEqual([[255, 255, 255], [255, 255, 255], [255, 255, 255]]);
+  });
+
+  it('keeps a line along the edge, using the nearest pixels outside the image', () => {
+    const line = [[0, 255, 255], [0, 255, 255], [0, 255, 255]];
+    expect(grayRows(medianDenoise(gray(line)))).toEqual(line);
+  });
+});
+
+describe('otsuThreshold / threshold', () => {
+  it('splits two clusters at the top of the darker one', () => {
+    expect(otsuThreshold(new Uint8ClampedArray([10, 10, 240, 240]))).toBe(10);
+  });
+
+  it('turns ink black and paper white at the automatic level', () => {
+    expect(grayRows(threshold(gray([[10, 10, 240, 240]])))).toEqual([[0, 0, 255, 255]]);
+  });
+
+  it('drops fainter strokes at a lower level', () => {
+    expect(grayRows(threshold(gray([[10, 10, 240, 240]]), 0))).toEqual([[255, 255, 255, 255]]);
+  });
+});
+
+describe('detectEdges', () => {
+  const step = [
+    [0, 0, 0, 255, 255, 255],
+    [0, 0, 0, 255, 255, 255],
+    [0, 0, 0, 255, 255, 255],
+  ];
+
+  it('leaves a flat image white', () => {
+    expect(grayRows(detectEdges(gray([[128, 128], [128, 128]])))).toEqual([[255, 255], [255, 255]]);
+  });
+
+  it('draws a dark line along a step edge', () => {
+    // After the 1-2-1 blur the columns are 0, 0, 63.75, 191.25, 255, 255, so Sobel gives 0, 255, 765, 765, 255, 0
+    expect(grayRows(detectEdges(gray(step)))).toEqual(Array(3).fill([255, 0, 0, 0, 0, 255]));
+  });
+
+  it('keeps only strong edges at a low level', () => {
+    // Cutoff 180: the weaker 255 response only darkens to 255 - (255 - 180) * 3
+    expect(grayRows(detectEdges(gray(step), 0))).toEqual(Array(3).fill([255, 30, 0, 0, 30, 255]));
+  });
+});
@@ -0,0 +1,236 @@
+// Local cleanup for uploaded photos and scans, run before they go on the canvas. Every step
+// works on a plain RGBA buffer and returns a new one, so nothing here needs a canvas.
+
+/** Anything shaped like ImageData. */
+export interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export type LineArtMode = 'none' | 'edges' | 'threshold';
+
+export interface PreprocessOptions {
+  /** Divide out the paper colour so the background becomes pure white. */
+  removeTint: boolean;
+  /** Stretch levels so the darkest ink is black and the lightest paper white. */
+  normalizeContrast: boolean;
+  /** 3x3 median filter against scanner speckle and JPEG noise. */
+  denoise: boolean;
+  /** 'edges' traces a photo into line art; 'threshold' makes pure black-and-white ink. */
+  lineArt: LineArtMode;
+  /** Edge sensitivity or threshold offset, 0..1 (0.5 is the automatic level). */
+  level: number;
+}
+
+export const NO_PREPROCESSING: PreprocessOptions = {
+  removeTint: false,
+  normalizeContrast: false,
+  denoise: false,
+  lineArt: 'none',
+  level: 0.5,
+};
+
+export const PREPROCESS_PRESETS: { id: string; name: string; options: PreprocessOptions }[] = [
+  { id: 'none', name: 'Original', options: NO_PREPROCESSING },
+  { id: 'clean', name: 'Clean scan', options: { ...NO_PREPROCESSING, removeTint: true, normalizeContrast: true } },
+  { id: 'ink', name: 'Ink only', options: { ...NO_PREPROCESSING, removeTint: true, normalizeContrast: true, denoise: true, lineArt: 'threshold' } },
+  { id: 'lineart', name: 'Photo to line art', options: { ...NO_PREPROCESSING, normalizeContrast: true, denoise: true, lineArt: 'edges' } },
+];
+
+const clamp = (value: number) => value < 0 ? 0 : value > 255 ? 255 : value;
+
+const luminance = (data: Uint8ClampedArray, p: number) => 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+
+const blank = ({ width, height }: Pixels): Pixels => ({ data: new Uint8ClampedArray(width * height * 4), width, height });
+
+// Grey value of every pixel, one byte each
+const toGray = ({ data, width, height }: Pixels) => {
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) gray[i] = luminance(data, i * 4);
+  return gray;
+};
+
+const fromGray = (gray: Uint8ClampedArray, source: Pixels): Pixels => {
+  const out = blank(source);
+  for (let i = 0; i < gray.length; i++) {
+    const p = i * 4;
+    out.data[p] = out.data[p + 1] = out.data[p + 2] = gray[i];
+    out.data[p + 3] = 255;
+  }
+  return out;
+};
+
+// Value below which `fraction` of the histogram lies
+const percentile = (histogram: Uint32Array, total: number, fraction: number) => {
+  const target = total * fraction;
+  let seen = 0;
+  for (let v = 0; v < histogram.length; v++) {
+    seen += histogram[v];
+    if (seen > target) return v;
+  }
+  return histogram.length - 1;
+};
+
+/**
+ * Treats the bright end of each channel as the paper colour and scales it to white, which
+ * removes yellowed paper and colour casts. Pixels that end up near white become pure white.
+ */
+export function removePaperTint(source: Pixels, whitePoint = 0.9): Pixels {
+  const { data } = source;
+  const count = data.length / 4;
+  const paper = [0, 1, 2].map((channel) => {
+    const histogram = new Uint32Array(256);
+    for (let p = channel; p < data.length; p += 4) histogram[data[p]]++;
+    // Paper covers most of a sketch, so the 90th percentile is a safe estimate of it
+    return Math.max(1, percentile(histogram, count, whitePoint));
+  });
+
+  const out = blank(source);
+  for (let p = 0; p < data.length; p += 4) {
+    for (let c = 0; c < 3; c++) out.data[p + c] = clamp(data[p + c] * 255 / paper[c]);
+    out.data[p + 3] = data[p + 3];
+    if (luminance(out.data, p) > 235) out.data[p] = out.data[p + 1] = out.data[p + 2] = 255;
+  }
+  return out;
+}
+
+/** Stretches brightness so the darkest `clip` fraction is black and the lightest is white. */
+export function normalizeContrast(source: Pixels, clip = 0.005): Pixels {
+  const { data } = source;
+  const histogram = new Uint32Array(256);
+  for (let p = 0; p < data.length; p += 4) histogram[Math.round(luminance(data, p))]++;
+  const count = data.length / 4;
+  const low = percentile(histogram, count, clip);
+  const high = percentile(histogram, count, 1 - clip);
+
+  const out = blank(source);
+  // Flat images have nothing to stretch
+  const scale = high > low ? 255 / (high - low) : 1;
+  const offset = high > low ? low : 0;
+  for (let p = 0; p < data.length; p += 4) {
+    for (let c = 0; c < 3; c++) out.data[p + c] = clamp((data[p + c] - offset) * scale);
+    out.data[p + 3] = data[p + 3];
+  }
+  return out;
+}
+
+/** 3x3 median per channel; edges use the nearest pixels inside the image. */
+export function medianDenoise(source: Pixels): Pixels {
+  const { data, width, height } = source;
+  const out = blank(source);
+  const window = new Uint8Array(9);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        let n = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          const yy = Math.min(height - 1, Math.max(0, y + dy));
+          for (let dx = -1; dx <= 1; dx++) {
+            const xx = Math.min(width - 1, Math.max(0, x + dx));
+            // Insertion sort as we go; nine values don't need more
+            const v = data[(yy * width + xx) * 4 + c];
+            let i = n++;
+            while (i > 0 && window[i - 1] > v) {
+              window[i] = window[i - 1];
+              i--;
+            }
+            window[i] = v;
+          }
+        }
+        out.data[p + c] = window[4];
+      }
+      out.data[p + 3] = data[p + 3];
+    }
+  }
+  return out;
+}
+
+/** Otsu's method: the grey level that best separates ink from paper. */
+export function otsuThreshold(gray: Uint8ClampedArray): number {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+  let sum = 0;
+  for (let v = 0; v < 256; v++) sum += v * histogram[v];
+
+  let best = 127, bestVariance = -1;
+  let weightBelow = 0, sumBelow = 0;
+  for (let t = 0; t < 256; t++) {
+    weightBelow += histogram[t];
+    if (weightBelow === 0) continue;
+    const weightAbove = gray.length - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sum - sumBelow) / weightAbove;
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+}
+
+/**
+ * Black ink on white paper. `level` 0.5 uses Otsu's threshold; lower keeps only the darkest
+ * strokes, higher picks up fainter ones.
+ */
+export function threshold(source: Pixels, level = 0.5): Pixels {
+  const gray = toGray(source);
+  const cutoff = otsuThreshold(gray) + (level - 0.5) * 128;
+  for (let i = 0; i < gray.length; i++) gray[i] = gray[i] <= cutoff ? 0 : 255;
+  return fromGray(gray, source);
+}
+
+/**
+ * Line art from a photo: a light blur, Sobel edge strength, then dark lines on white.
+ * Higher `level` keeps weaker edges.
+ */
+export function detectEdges(source: Pixels, level = 0.5): Pixels {
+  const { width, height } = source;
+  const gray = toGray(source);
+  const at = (buffer: ArrayLike<number>, x: number, y: number) =>
+    buffer[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+  // 3x3 Gaussian (1 2 1) so texture and noise don't become lines
+  const blurred = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      blurred[y * width + x] = (
+        at(gray, x - 1, y - 1) + 2 * at(gray, x, y - 1) + at(gray, x + 1, y - 1)
+        + 2 * at(gray, x - 1, y) + 4 * at(gray, x, y) + 2 * at(gray, x + 1, y)
+        + at(gray, x - 1, y + 1) + 2 * at(gray, x, y + 1) + at(gray, x + 1, y + 1)
+      ) / 16;
+    }
+  }
+
+  const cutoff = 20 + (1 - level) * 160;
+  const out = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = at(blurred, x + 1, y - 1) + 2 * at(blurred, x + 1, y) + at(blurred, x + 1, y + 1)
+        - at(blurred, x - 1, y - 1) - 2 * at(blurred, x - 1, y) - at(blurred, x - 1, y + 1);
+      const gy = at(blurred, x - 1, y + 1) + 2 * at(blurred, x, y + 1) + at(blurred, x + 1, y + 1)
+        - at(blurred, x - 1, y - 1) - 2 * at(blurred, x, y - 1) - at(blurred, x + 1, y - 1);
+      // Soft ramp above the cutoff keeps lines anti-aliased instead of jagged
+      out[y * width + x] = 255 - clamp((Math.hypot(gx, gy) - cutoff) * 3);
+    }
+  }
+  return fromGray(out, source);
+}
+
+/** Runs the enabled steps in a fixed order: tint, contrast, denoise, then line art. */
+export function preprocess(source: Pixels, options: PreprocessOptions): Pixels {
+  let pixels = source;
+  if (options.removeTint) pixels = removePaperTint(pixels);
+  if (options.normalizeContrast) pixels = normalizeContrast(pixels);
+  if (options.denoise) pixels = medianDenoise(pixels);
+  if (options.lineArt === 'edges') pixels = detectEdges(pixels, options.level);
+  if (options.lineArt === 'threshold') pixels = threshold(pixels, options.level);
+  return pixels;
+}
+
+export const isPreprocessing = (options: PreprocessOptions) =>
+  options.removeTint || options.normalizeContrast || options.denoise || options.lineArt !== 'none';
@@ -0,0 +1,73 @@
+// Rectangular and lasso selections: an outline, the mask it covers, and helpers for
+// copying pixels out of a layer through that mask.
+
+import { Point } from './shapes';
+import { createCanvas } from './image';
+
+export type SelectionShape = 'rect' | 'lasso';
+
+export interface Selection {
+  shape: SelectionShape;
+  points: Point[];
+  /** Opaque wherever the selection covers, same size as the document. */
+  mask: HTMLCanvasElement;
+  /** Bounding box in whole document pixels, clipped to the document. */
+  bounds: { x: number; y: number; width: number; height: number };
+}
+
+export const traceSelection = (ctx: CanvasRenderingContext2D, shape: SelectionShape, points: Point[]) => {
+  ctx.beginPath();
+  if (shape === 'rect') {
+    const start = points[0];
+    const end = points[points.length - 1];
+    ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+  } else {
+    points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+  }
+};
+
+/** Builds a selection, or returns null when it covers (next to) nothing. */
+export const createSelection = (shape: SelectionShape, points: Point[], width: number, height: number): Selection | null => {
+  if (points.length < 2) return null;
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const left = Math.max(0, Math.floor(Math.min(...xs)));
+  const top = Math.max(0, Math.floor(Math.min(...ys)));
+  const right = Math.min(width, Math.ceil(Math.max(...xs)));
+  const bottom = Math.min(height, Math.ceil(Math.max(...ys)));
+  if (right - left < 2 || bottom - top < 2) return null;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = '#000';
+  traceSelection(ctx, shape, points);
+  ctx.fill();
+  return { shape, points, mask: canvas, bounds: { x: left, y: top, width: right - left, height: bottom - top } };
+};
+
+export const selectionContains = (selection: Selection, { x, y }: Point) => {
+  const { bounds } = selection;
+  if (x < bounds.x || y < bounds.y || x >= bounds.x + bounds.width || y >= bounds.y + bounds.height) return false;
+  const ctx = selection.mask.getContext('2d');
+  return !!ctx && ctx.getImageData(Math.floor(x), Math.floor(y), 1, 1).data[3] > 0;
+};
+
+/** Copies the selected pixels of `source` into a canvas the size of the selection bounds. */
+export const extractSelection = (source: HTMLCanvasElement, selection: Selection) => {
+  const { x, y, width, height } = selection.bounds;
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(selection.mask, x, y, width, height, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.drawImage(source, x, y, width, height, 0, 0, width, height);
+  return canvas;
+};
+
+/** Removes the area under `mask` from the target. */
+export const eraseMasked = (target: CanvasRenderingContext2D, mask: HTMLCanvasElement) => {
+  target.save();
+  target.setTransform(1, 0, 0, 1, 0, 0);
+  target.globalAlpha = 1;
+  target.globalCompositeOperation = 'destination-out';
+  target.drawImage(mask, 0, 0);
+  target.restore();
+};
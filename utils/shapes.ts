@@ -0,0 +1,92 @@
+// Vector-ish tools (line, rectangle, ellipse, arrow, text) rendered straight onto a layer.
+// The live preview and history replay both call these, so what you see while dragging
+// is exactly what gets committed.
+
+export type ShapeKind = 'line' | 'rect' | 'ellipse' | 'arrow';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface ShapeStyle {
+  size: number;
+  color: string;
+}
+
+/**
+ * Applies the Shift modifier: lines and arrows snap to 45° steps,
+ * rectangles and ellipses become squares and circles.
+ */
+export const constrainShape = (shape: ShapeKind, from: Point, to: Point): Point => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (shape === 'line' || shape === 'arrow') {
+    const angle = Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) * (Math.PI / 4);
+    const length = Math.hypot(dx, dy);
+    return { x: from.x + Math.cos(angle) * length, y: from.y + Math.sin(angle) * length };
+  }
+  const side = Math.max(Math.abs(dx), Math.abs(dy));
+  return { x: from.x + Math.sign(dx || 1) * side, y: from.y + Math.sign(dy || 1) * side };
+};
+
+export const drawShape = (ctx: CanvasRenderingContext2D, shape: ShapeKind, from: Point, to: Point, style: ShapeStyle) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.strokeStyle = style.color;
+  ctx.fillStyle = style.color;
+  ctx.lineWidth = style.size;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+
+  switch (shape) {
+    case 'line':
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+      break;
+    case 'rect':
+      ctx.strokeRect(Math.min(from.x, to.x), Math.min(from.y, to.y), Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+      break;
+    case 'ellipse':
+      ctx.ellipse(
+        (from.x + to.x) / 2,
+        (from.y + to.y) / 2,
+        Math.abs(to.x - from.x) / 2,
+        Math.abs(to.y - from.y) / 2,
+        0, 0, Math.PI * 2
+      );
+      ctx.stroke();
+      break;
+    case 'arrow': {
+      const angle = Math.atan2(to.y - from.y, to.x - from.x);
+      // Head scales with the line but stays readable for thin strokes
+      const head = Math.max(10, style.size * 3);
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x - Math.cos(angle) * head * 0.5, to.y - Math.sin(angle) * head * 0.5);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(to.x, to.y);
+      ctx.lineTo(to.x - Math.cos(angle - Math.PI / 7) * head, to.y - Math.sin(angle - Math.PI / 7) * head);
+      ctx.lineTo(to.x - Math.cos(angle + Math.PI / 7) * head, to.y - Math.sin(angle + Math.PI / 7) * head);
+      ctx.closePath();
+      ctx.fill();
+      break;
+    }
+  }
+  ctx.restore();
+};
+
+export const LABEL_FONT = 'ui-sans-serif, system-ui, sans-serif';
+
+/** Text labels are plain and bold so the model can actually read them. */
+export const drawLabel = (ctx: CanvasRenderingContext2D, text: string, at: Point, fontSize: number, color: string) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.fillStyle = color;
+  ctx.font = `bold ${fontSize}px ${LABEL_FONT}`;
+  ctx.textBaseline = 'top';
+  text.split('\n').forEach((line, i) => ctx.fillText(line, at.x, at.y + i * fontSize * 1.2));
+  ctx.restore();
+};
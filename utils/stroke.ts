@@ -0,0 +1,118 @@
+// Freehand stroke geometry: stabilizing raw input and rendering smooth, pressure-aware paths.
+// Live drawing and history replay both go through drawStrokeSegment, so a replayed
+// stroke is pixel-identical to what was drawn on screen.
+
+export interface StrokePoint {
+  x: number;
+  y: number;
+  /** Normalized 0..1. Mouse input is always 1. */
+  pressure: number;
+}
+
+export interface StrokeStyle {
+  size: number;
+  color: string;
+  erase: boolean;
+}
+
+const MIN_PRESSURE = 0.1;
+
+export const widthAt = (size: number, pressure: number) => size * Math.max(MIN_PRESSURE, Math.min(1, pressure));
+
+const midpoint = (a: StrokePoint, b: StrokePoint): StrokePoint => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+  pressure: (a.pressure + b.pressure) / 2,
+});
+
+/**
+ * Lazy-follow stabilizer. The smoothed point trails the raw input; strength 0 follows
+ * the pointer exactly, values near 1 give long, calm curves.
+ */
+export class Stabilizer {
+  private strength: number;
+  private last: StrokePoint | null = null;
+
+  constructor(strength: number) {
+    // Never fully freeze the pen
+    this.strength = Math.max(0, Math.min(0.95, strength));
+  }
+
+  push(point: StrokePoint): StrokePoint {
+    if (!this.last) {
+      this.last = point;
+      return point;
+    }
+    const follow = 1 - this.strength;
+    this.last = {
+      x: this.last.x + (point.x - this.last.x) * follow,
+      y: this.last.y + (point.y - this.last.y) * follow,
+      pressure: this.last.pressure + (point.pressure - this.last.pressure) * follow,
+    };
+    return this.last;
+  }
+}
+
+const applyStyle = (ctx: CanvasRenderingContext2D, { color, erase }: StrokeStyle) => {
+  ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+};
+
+/**
+ * Draws the piece of the stroke that becomes known once points[index] arrives.
+ * Segments run between midpoints of consecutive points with the shared point as a
+ * quadratic control, which gives a smooth curve without lookahead. Index 0 draws
+ * the initial dot; `index === points.length` draws the tail to the final point.
+ */
+export const drawStrokeSegment = (ctx: CanvasRenderingContext2D, points: StrokePoint[], index: number, style: StrokeStyle) => {
+  const n = points.length;
+  if (n === 0) return;
+
+  ctx.save();
+  applyStyle(ctx, style);
+  ctx.beginPath();
+
+  if (index === 0) {
+    const p = points[0];
+    ctx.arc(p.x, p.y, widthAt(style.size, p.pressure) / 2, 0, Math.PI * 2);
+    ctx.fill();
+  } else if (index >= n) {
+    // Tail: from the last midpoint straight to the final point
+    if (n < 2) {
+      ctx.restore();
+      return;
+    }
+    const from = midpoint(points[n - 2], points[n - 1]);
+    const to = points[n - 1];
+    ctx.lineWidth = widthAt(style.size, to.pressure);
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  } else {
+    const prev = points[index - 1];
+    const curr = points[index];
+    const to = midpoint(prev, curr);
+    ctx.lineWidth = widthAt(style.size, to.pressure);
+    if (index === 1) {
+      ctx.moveTo(prev.x, prev.y);
+      ctx.lineTo(to.x, to.y);
+    } else {
+      const from = midpoint(points[index - 2], prev);
+      ctx.moveTo(from.x, from.y);
+      ctx.quadraticCurveTo(prev.x, prev.y, to.x, to.y);
+    }
+    ctx.stroke();
+  }
+
+  ctx.restore();
+};
+
+/** Renders a complete stroke, e.g. when replaying history. */
+export const drawStroke = (ctx: CanvasRenderingContext2D, points: StrokePoint[], style: StrokeStyle) => {
+  for (let i = 0; i <= points.length; i++) {
+    drawStrokeSegment(ctx, points, i, style);
+  }
+};
@@ -0,0 +1,152 @@
+// Free-transform geometry for floating images (drops, pastes, lifted selections).
+// A placement is the visible, cropped part of the source: its centre, size and
+// rotation in document pixels. Everything is plain data so it can be stored in history.
+
+import { Point } from './shapes';
+
+export type ImageSource = HTMLImageElement | HTMLCanvasElement;
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TransformedImage {
+  source: ImageSource;
+  /** Part of the source that is shown, in source pixels. */
+  crop: CropRect;
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  /** Radians, clockwise. */
+  rotation: number;
+}
+
+/** Which handle is being dragged: -1/0/1 per axis, e.g. (1, 1) is the bottom-right corner. */
+export interface Handle {
+  hx: -1 | 0 | 1;
+  hy: -1 | 0 | 1;
+}
+
+// Never let a transform collapse the object to nothing
+const MIN_SIZE = 4;
+const ROTATION_SNAP = Math.PI / 12;
+
+const rotate = ({ x, y }: Point, angle: number): Point => ({
+  x: x * Math.cos(angle) - y * Math.sin(angle),
+  y: x * Math.sin(angle) + y * Math.cos(angle),
+});
+
+/** Converts a document point into the object's unrotated frame (origin at its centre). */
+const toLocal = (object: TransformedImage, point: Point) =>
+  rotate({ x: point.x - object.cx, y: point.y - object.cy }, -object.rotation);
+
+const withCenterOffset = (object: TransformedImage, local: Point): Pick<TransformedImage, 'cx' | 'cy'> => {
+  const offset = rotate(local, object.rotation);
+  return { cx: object.cx + offset.x, cy: object.cy + offset.y };
+};
+
+/** Places a whole source centred on a point, scaled down (never up) to fit within maxWidth × maxHeight. */
+export const placeImage = (source: ImageSource, center: Point, maxWidth: number, maxHeight: number): TransformedImage => {
+  const scale = Math.min(1, maxWidth / source.width, maxHeight / source.height);
+  return {
+    source,
+    crop: { x: 0, y: 0, width: source.width, height: source.height },
+    cx: center.x,
+    cy: center.y,
+    width: source.width * scale,
+    height: source.height * scale,
+    rotation: 0,
+  };
+};
+
+export const containsPoint = (object: TransformedImage, point: Point) => {
+  const local = toLocal(object, point);
+  return Math.abs(local.x) <= object.width / 2 && Math.abs(local.y) <= object.height / 2;
+};
+
+export const moveBy = (object: TransformedImage, dx: number, dy: number): TransformedImage => ({
+  ...object,
+  cx: object.cx + dx,
+  cy: object.cy + dy,
+});
+
+/**
+ * Drags a handle of `start` to `point`, keeping the opposite side fixed.
+ * Corners keep the aspect ratio unless `freeAspect`; edges stretch one axis.
+ */
+export const resizeTo = (start: TransformedImage, { hx, hy }: Handle, point: Point, freeAspect: boolean): TransformedImage => {
+  const local = toLocal(start, point);
+  const anchor = { x: -hx * start.width / 2, y: -hy * start.height / 2 };
+  let width = hx ? Math.max(MIN_SIZE, hx * (local.x - anchor.x)) : start.width;
+  let height = hy ? Math.max(MIN_SIZE, hy * (local.y - anchor.y)) : start.height;
+
+  if (hx && hy && !freeAspect) {
+    const scale = Math.max(width / start.width, height / start.height);
+    width = start.width * scale;
+    height = start.height * scale;
+  }
+
+  // The anchor stays where it was; the centre moves half the growth towards the handle
+  const center = withCenterOffset(start, {
+    x: hx ? anchor.x + hx * width / 2 : 0,
+    y: hy ? anchor.y + hy * height / 2 : 0,
+  });
+  return { ...start, ...center, width, height };
+};
+
+/**
+ * Drags a crop handle: the edge moves to `point` (limited to the source bounds) and the
+ * visible pixels stay exactly where they were on the page.
+ */
+export const cropTo = (start: TransformedImage, { hx, hy }: Handle, point: Point): TransformedImage => {
+  const local = toLocal(start, point);
+  const scaleX = start.width / start.crop.width;
+  const scaleY = start.height / start.crop.height;
+  const crop = { ...start.crop };
+  let { width, height } = start;
+  let shiftX = 0;
+  let shiftY = 0;
+
+  if (hx) {
+    // How far the dragged edge moved outwards, limited by the source and the opposite edge
+    const available = hx < 0 ? start.crop.x : start.source.width - start.crop.x - start.crop.width;
+    const delta = Math.min(available * scaleX, Math.max(MIN_SIZE - start.width, hx * local.x - start.width / 2));
+    width = start.width + delta;
+    crop.width = width / scaleX;
+    if (hx < 0) crop.x = start.crop.x - delta / scaleX;
+    shiftX = hx * delta / 2;
+  }
+  if (hy) {
+    const available = hy < 0 ? start.crop.y : start.source.height - start.crop.y - start.crop.height;
+    const delta = Math.min(available * scaleY, Math.max(MIN_SIZE - start.height, hy * local.y - start.height / 2));
+    height = start.height + delta;
+    crop.height = height / scaleY;
+    if (hy < 0) crop.y = start.crop.y - delta / scaleY;
+    shiftY = hy * delta / 2;
+  }
+
+  return { ...start, ...withCenterOffset(start, { x: shiftX, y: shiftY }), width, height, crop };
+};
+
+/** Rotates by the angle swept around the centre since `from`; `snap` rounds to 15° steps. */
+export const rotateTo = (start: TransformedImage, from: Point, point: Point, snap: boolean): TransformedImage => {
+  const angleFrom = Math.atan2(from.y - start.cy, from.x - start.cx);
+  const angleTo = Math.atan2(point.y - start.cy, point.x - start.cx);
+  let rotation = start.rotation + angleTo - angleFrom;
+  if (snap) rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+  return { ...start, rotation };
+};
+
+export const drawTransformedImage = (ctx: CanvasRenderingContext2D, object: TransformedImage) => {
+  const { source, crop, cx, cy, width, height, rotation } = object;
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.translate(cx, cy);
+  ctx.rotate(rotation);
+  ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, -width / 2, -height / 2, width, height);
+  ctx.restore();
+};
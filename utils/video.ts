@@ -0,0 +1,46 @@
+// WebM through MediaRecorder: frames are played onto a canvas in real time while it is
+// recorded, so encoding takes as long as the animation runs.
+
+export interface VideoFrame {
+  image: CanvasImageSource;
+  /** Display time in milliseconds. */
+  delay: number;
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const canRecordWebM = () =>
+  typeof MediaRecorder !== 'undefined' && WEBM_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Records the frames, each drawn to fill a width x height canvas, into a WebM Blob. */
+export async function encodeWebM(frames: VideoFrame[], width: number, height: number): Promise<Blob> {
+  const mimeType = WEBM_TYPES.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error("This browser can't record WebM video.");
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create a 2D canvas context.");
+
+  // Frame rate 0: a frame is captured only when requested, right after each draw
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => e.data.size && chunks.push(e.data);
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  for (const frame of frames) {
+    ctx.drawImage(frame.image, 0, 0, width, height);
+    track.requestFrame();
+    await wait(frame.delay);
+  }
+  recorder.stop();
+  await stopped;
+  track.stop();
+  return new Blob(chunks, { type: 'video/webm' });
+}
@@ -4,16 +4,25 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // API keys are entered at runtime or held by the local proxy (server/proxy.mjs); never bundled.
+    // The dev server stays on this machine by default. Exposing it with HOST (e.g. HOST=0.0.0.0
+    // to test on a phone) drops the /api proxy, since anyone on the network could spend the key.
+    const host = env.HOST || 'localhost';
+    const exposed = !['localhost', '127.0.0.1', '::1'].includes(host);
+    const proxy = exposed ? undefined : {
+      '/api': `http://127.0.0.1:${env.PROXY_PORT || 8787}`,
+    };
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        host,
+        proxy,
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      preview: {
+        host,
+        proxy,
       },
+      plugins: [react()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),